@@ -0,0 +1,124 @@
+import React, { useState } from 'react';
+import { GripVertical, Plus, X } from 'lucide-react';
+
+interface ChoiceListEditorProps {
+  items: string[];
+  // Indexes of the items marked correct
+  correct: number[];
+  // One correct item, several, or none when the list order is the answer
+  picker: 'single' | 'multiple' | 'none';
+  // What each wrong item gets wrong, shown to players who pick it; no feedback fields when left out
+  feedback?: string[];
+  onChange: (items: string[], correct: number[], feedback: string[]) => void;
+}
+
+const MIN_ITEMS = 2;
+const MAX_ITEMS = 8;
+
+// Editable list of options whose rows can be dragged into a new order; the correct marks move with them
+export const ChoiceListEditor: React.FC<ChoiceListEditorProps> = ({ items, correct, picker, feedback, onChange }) => {
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const notes = items.map((_, index) => feedback?.[index] ?? '');
+
+  const move = (from: number, to: number) => {
+    if (from === to) return;
+    const order = items.map((_, index) => index);
+    const [moved] = order.splice(from, 1);
+    order.splice(to, 0, moved);
+    onChange(order.map(index => items[index]), correct.map(index => order.indexOf(index)), order.map(index => notes[index]));
+  };
+
+  const remove = (removed: number) => {
+    const remaining = correct
+      .filter(index => index !== removed)
+      .map(index => (index > removed ? index - 1 : index));
+    // A single-answer question always needs an answer marked
+    onChange(
+      items.filter((_, index) => index !== removed),
+      picker === 'single' && remaining.length === 0 ? [0] : remaining,
+      notes.filter((_, index) => index !== removed)
+    );
+  };
+
+  const toggleCorrect = (index: number) => {
+    if (picker === 'single') {
+      onChange(items, [index], notes);
+    } else {
+      onChange(items, correct.includes(index) ? correct.filter(item => item !== index) : [...correct, index].sort((a, b) => a - b), notes);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      {items.map((item, index) => (
+        <div
+          key={index}
+          onDragOver={(event) => event.preventDefault()}
+          onDrop={(event) => {
+            event.preventDefault();
+            if (dragIndex !== null) move(dragIndex, index);
+            setDragIndex(null);
+          }}
+          className={`flex items-center space-x-2 rounded-xl border-2 p-2 transition-colors ${
+            dragIndex === index ? 'border-blue-300 bg-blue-50 opacity-60' : 'border-gray-200 bg-white'
+          }`}
+        >
+          <span
+            draggable
+            onDragStart={() => setDragIndex(index)}
+            onDragEnd={() => setDragIndex(null)}
+            className="text-gray-400 cursor-grab active:cursor-grabbing"
+            title="Drag to reorder"
+          >
+            <GripVertical size={18} />
+          </span>
+          {picker === 'none' ? (
+            <span className="w-6 text-center text-sm font-bold text-gray-500">{index + 1}</span>
+          ) : (
+            <input
+              type={picker === 'single' ? 'radio' : 'checkbox'}
+              checked={correct.includes(index)}
+              onChange={() => toggleCorrect(index)}
+              className="w-5 h-5 accent-green-600"
+              title="Correct answer"
+            />
+          )}
+          <input
+            type="text"
+            value={item}
+            onChange={event => onChange(items.map((existing, position) => (position === index ? event.target.value : existing)), correct, notes)}
+            placeholder={`Option ${index + 1}`}
+            className="flex-1 px-3 py-2 rounded-lg border border-gray-200 focus:border-blue-500 outline-none"
+          />
+          {feedback && (
+            <input
+              type="text"
+              value={notes[index]}
+              onChange={event => onChange(items, correct, notes.map((existing, position) => (position === index ? event.target.value : existing)))}
+              disabled={correct.includes(index)}
+              placeholder={correct.includes(index) ? 'Correct answer' : 'If picked, e.g. You added the denominators too'}
+              className="flex-1 px-3 py-2 rounded-lg border border-gray-200 focus:border-blue-500 outline-none text-sm disabled:bg-gray-50"
+            />
+          )}
+          <button
+            onClick={() => remove(index)}
+            disabled={items.length <= MIN_ITEMS}
+            className="p-1 rounded-lg text-gray-400 hover:text-red-500 disabled:opacity-30 disabled:hover:text-gray-400"
+            title="Remove"
+          >
+            <X size={18} />
+          </button>
+        </div>
+      ))}
+      {items.length < MAX_ITEMS && (
+        <button
+          onClick={() => onChange([...items, ''], correct, [...notes, ''])}
+          className="flex items-center space-x-1 text-sm font-medium text-blue-600 hover:text-blue-700"
+        >
+          <Plus size={16} />
+          <span>Add option</span>
+        </button>
+      )}
+    </div>
+  );
+};
@@ -1,6 +1,23 @@
 import React, { useEffect, useRef, useState } from 'react';
 import * as THREE from 'three';
-import { Player, TreasureBox } from '../types/game';
+import { Environment, Player, TreasureBox } from '../types/game';
+import { environmentThemes } from '../data/environments';
+import { createGroundTexture, populateEnvironment } from '../scene/environments';
+import { createTreasureChestLayer, TreasureChestLayer } from '../scene/treasureChests';
+import { createFrameScheduler, FrameScheduler } from '../scene/frameScheduler';
+import { disposeObject } from '../scene/dispose';
+import { createCollisionWorld, STEP_HEIGHT } from '../scene/collision';
+import { createTerrainGeometry, sampleTerrainHeight } from '../scene/terrain';
+import { deriveRandom } from '../utils/random';
+
+const PLAYER_RADIUS = 1.5;
+
+interface FrameStats {
+  fps: number;
+  frameTime: number;
+  drawCalls: number;
+  triangles: number;
+}
 
 interface GameCanvasProps {
   player: Player;
@@ -8,6 +25,9 @@ interface GameCanvasProps {
   onTreasureBoxInteract: (boxId: string) => void;
   treasureBoxes: TreasureBox[];
   hintsEnabled: boolean;
+  environment: Environment;
+  seed: number;
+  paused?: boolean;
 }
 
 export const GameCanvas: React.FC<GameCanvasProps> = ({
@@ -15,7 +35,10 @@ export const GameCanvas: React.FC<GameCanvasProps> = ({
   onPlayerMove,
   onTreasureBoxInteract,
   treasureBoxes,
-  hintsEnabled
+  hintsEnabled,
+  environment,
+  seed,
+  paused = false
 }) => {
   const mountRef = useRef<HTMLDivElement>(null);
   const sceneRef = useRef<THREE.Scene>();
@@ -25,16 +48,38 @@ export const GameCanvas: React.FC<GameCanvasProps> = ({
   const keysRef = useRef<{ [key: string]: boolean }>({});
   const mouseRef = useRef({ x: 0, y: 0, isLocked: false });
   const velocityRef = useRef({ x: 0, y: 0, z: 0 });
-  const [isJumping, setIsJumping] = useState(false);
+  const isJumpingRef = useRef(false);
+  const chestLayerRef = useRef<TreasureChestLayer>();
+  const schedulerRef = useRef<FrameScheduler>();
+  const pausedRef = useRef(paused);
+  pausedRef.current = paused;
   const [nearTreasure, setNearTreasure] = useState<TreasureBox | null>(null);
+  const [frameStats, setFrameStats] = useState<FrameStats | null>(null);
+  const showStatsRef = useRef(false);
+
+  // Latest props and state for the long-lived input handlers and game loop
+  const treasureBoxesRef = useRef(treasureBoxes);
+  // Where a rebuilt world puts the player
+  const playerRef = useRef(player);
+  const nearTreasureRef = useRef(nearTreasure);
+  const onPlayerMoveRef = useRef(onPlayerMove);
+  const onTreasureBoxInteractRef = useRef(onTreasureBoxInteract);
+  treasureBoxesRef.current = treasureBoxes;
+  playerRef.current = player;
+  nearTreasureRef.current = nearTreasure;
+  onPlayerMoveRef.current = onPlayerMove;
+  onTreasureBoxInteractRef.current = onTreasureBoxInteract;
 
   useEffect(() => {
-    if (!mountRef.current) return;
+    const mount = mountRef.current;
+    if (!mount) return;
+
+    const theme = environmentThemes[environment];
 
     // Scene setup with enhanced atmosphere
     const scene = new THREE.Scene();
-    scene.background = new THREE.Color(0x87CEEB);
-    scene.fog = new THREE.Fog(0x87CEEB, 50, 300);
+    scene.background = new THREE.Color(theme.skyColor);
+    scene.fog = new THREE.Fog(theme.fog.color, theme.fog.near, theme.fog.far);
     sceneRef.current = scene;
 
     // Camera setup - Third person with better positioning
@@ -47,17 +92,21 @@ export const GameCanvas: React.FC<GameCanvasProps> = ({
     renderer.setSize(window.innerWidth, window.innerHeight);
     renderer.shadowMap.enabled = true;
     renderer.shadowMap.type = THREE.PCFSoftShadowMap;
-    renderer.setClearColor(0x87CEEB);
+    renderer.setClearColor(theme.skyColor);
     renderer.toneMapping = THREE.ACESFilmicToneMapping;
     renderer.toneMappingExposure = 1.2;
-    mountRef.current.appendChild(renderer.domElement);
+    mount.appendChild(renderer.domElement);
     rendererRef.current = renderer;
 
+    // One loop drives every per-object animation, then renders the frame
+    const scheduler = createFrameScheduler(() => renderer.render(scene, camera));
+    schedulerRef.current = scheduler;
+
     // Enhanced lighting system
-    const ambientLight = new THREE.AmbientLight(0x404040, 0.6);
+    const ambientLight = new THREE.AmbientLight(theme.lighting.ambientColor, theme.lighting.ambientIntensity);
     scene.add(ambientLight);
 
-    const directionalLight = new THREE.DirectionalLight(0xffffff, 1.2);
+    const directionalLight = new THREE.DirectionalLight(theme.lighting.sunColor, theme.lighting.sunIntensity);
     directionalLight.position.set(100, 150, 50);
     directionalLight.castShadow = true;
     directionalLight.shadow.mapSize.width = 4096;
@@ -71,48 +120,15 @@ export const GameCanvas: React.FC<GameCanvasProps> = ({
     scene.add(directionalLight);
 
     // Add rim lighting for atmosphere
-    const rimLight = new THREE.DirectionalLight(0x87CEEB, 0.5);
+    const rimLight = new THREE.DirectionalLight(theme.lighting.rimColor, theme.lighting.rimIntensity);
     rimLight.position.set(-50, 50, -50);
     scene.add(rimLight);
 
-    // Enhanced ground with multiple textures
-    const groundGeometry = new THREE.PlaneGeometry(500, 500, 100, 100);
+    // Enhanced ground with multiple textures, displaced for terrain variation
+    const groundGeometry = createTerrainGeometry();
     
     // Create procedural ground texture
-    const canvas = document.createElement('canvas');
-    canvas.width = 512;
-    canvas.height = 512;
-    const ctx = canvas.getContext('2d')!;
-    
-    // Base grass color
-    ctx.fillStyle = '#2E8B37';
-    ctx.fillRect(0, 0, 512, 512);
-    
-    // Add grass patches
-    for (let i = 0; i < 1000; i++) {
-      const x = Math.random() * 512;
-      const y = Math.random() * 512;
-      const size = Math.random() * 8 + 2;
-      ctx.fillStyle = `hsl(${100 + Math.random() * 40}, ${50 + Math.random() * 30}%, ${25 + Math.random() * 20}%)`;
-      ctx.beginPath();
-      ctx.arc(x, y, size, 0, Math.PI * 2);
-      ctx.fill();
-    }
-    
-    // Add dirt patches
-    for (let i = 0; i < 200; i++) {
-      const x = Math.random() * 512;
-      const y = Math.random() * 512;
-      const size = Math.random() * 15 + 5;
-      ctx.fillStyle = `hsl(${30 + Math.random() * 20}, ${40 + Math.random() * 20}%, ${20 + Math.random() * 15}%)`;
-      ctx.beginPath();
-      ctx.arc(x, y, size, 0, Math.PI * 2);
-      ctx.fill();
-    }
-    
-    const groundTexture = new THREE.CanvasTexture(canvas);
-    groundTexture.wrapS = groundTexture.wrapT = THREE.RepeatWrapping;
-    groundTexture.repeat.set(25, 25);
+    const groundTexture = createGroundTexture(theme, deriveRandom(seed, 'ground'));
     
     const groundMaterial = new THREE.MeshLambertMaterial({ 
       map: groundTexture,
@@ -121,138 +137,14 @@ export const GameCanvas: React.FC<GameCanvasProps> = ({
     const ground = new THREE.Mesh(groundGeometry, groundMaterial);
     ground.rotation.x = -Math.PI / 2;
     ground.receiveShadow = true;
-    
-    // Add vertex displacement for terrain variation
-    const vertices = ground.geometry.attributes.position.array;
-    for (let i = 0; i < vertices.length; i += 3) {
-      vertices[i + 2] = Math.sin(vertices[i] * 0.01) * Math.cos(vertices[i + 1] * 0.01) * 2;
-    }
-    ground.geometry.attributes.position.needsUpdate = true;
-    ground.geometry.computeVertexNormals();
-    
     scene.add(ground);
 
-    // Enhanced tree creation with more variety
-    const createTree = (x: number, z: number, scale: number = 1, treeType: number = 0) => {
-      const treeGroup = new THREE.Group();
-      
-      if (treeType === 0) {
-        // Palm tree
-        const trunkGeometry = new THREE.CylinderGeometry(0.6 * scale, 1.0 * scale, 15 * scale, 8);
-        const trunkMaterial = new THREE.MeshLambertMaterial({ color: 0x8B4513 });
-        const trunk = new THREE.Mesh(trunkGeometry, trunkMaterial);
-        trunk.position.y = 7.5 * scale;
-        trunk.castShadow = true;
-        treeGroup.add(trunk);
-
-        // Palm fronds
-        for (let i = 0; i < 8; i++) {
-          const frondGeometry = new THREE.CylinderGeometry(0.1, 0.3, 8 * scale);
-          const frondMaterial = new THREE.MeshLambertMaterial({ color: 0x228B22 });
-          const frond = new THREE.Mesh(frondGeometry, frondMaterial);
-          frond.position.set(0, 15 * scale, 0);
-          frond.rotation.z = (i / 8) * Math.PI * 2;
-          frond.rotation.x = Math.PI / 6;
-          frond.castShadow = true;
-          treeGroup.add(frond);
-        }
-      } else {
-        // Regular tree with multiple leaf layers
-        const trunkGeometry = new THREE.CylinderGeometry(0.8 * scale, 1.2 * scale, 12 * scale, 8);
-        const trunkMaterial = new THREE.MeshLambertMaterial({ color: 0x654321 });
-        const trunk = new THREE.Mesh(trunkGeometry, trunkMaterial);
-        trunk.position.y = 6 * scale;
-        trunk.castShadow = true;
-        treeGroup.add(trunk);
-
-        // Multiple layers of leaves
-        const leafColors = [0x006400, 0x228B22, 0x32CD32, 0x9ACD32];
-        const leafSizes = [6, 4.5, 3.5, 2.5];
-        const leafHeights = [14, 16, 18, 20];
-        
-        for (let i = 0; i < 4; i++) {
-          const leavesGeometry = new THREE.SphereGeometry(leafSizes[i] * scale, 8, 6);
-          const leavesMaterial = new THREE.MeshLambertMaterial({ color: leafColors[i] });
-          const leaves = new THREE.Mesh(leavesGeometry, leavesMaterial);
-          leaves.position.set(
-            (Math.random() - 0.5) * 2 * scale,
-            leafHeights[i] * scale,
-            (Math.random() - 0.5) * 2 * scale
-          );
-          leaves.castShadow = true;
-          treeGroup.add(leaves);
-        }
-      }
+    // Props and chests register their footprints here so the player can't walk through them
+    const collision = createCollisionWorld();
 
-      treeGroup.position.set(x, 0, z);
-      return treeGroup;
-    };
-
-    // Create diverse jungle with different tree types
-    for (let i = 0; i < 200; i++) {
-      const x = (Math.random() - 0.5) * 450;
-      const z = (Math.random() - 0.5) * 450;
-      const scale = 0.6 + Math.random() * 1.2;
-      const treeType = Math.floor(Math.random() * 2);
-      
-      if (Math.sqrt(x * x + z * z) > 20) {
-        scene.add(createTree(x, z, scale, treeType));
-      }
-    }
-
-    // Add environmental elements
-    const createBush = (x: number, z: number) => {
-      const bushGroup = new THREE.Group();
-      const bushGeometry = new THREE.SphereGeometry(2 + Math.random() * 2, 8, 6);
-      const bushMaterial = new THREE.MeshLambertMaterial({ color: 0x228B22 });
-      const bush = new THREE.Mesh(bushGeometry, bushMaterial);
-      bush.position.y = 1;
-      bush.scale.y = 0.6;
-      bush.castShadow = true;
-      bush.receiveShadow = true;
-      bushGroup.add(bush);
-      bushGroup.position.set(x, 0, z);
-      return bushGroup;
-    };
-
-    // Add bushes
-    for (let i = 0; i < 100; i++) {
-      const x = (Math.random() - 0.5) * 400;
-      const z = (Math.random() - 0.5) * 400;
-      if (Math.sqrt(x * x + z * z) > 15) {
-        scene.add(createBush(x, z));
-      }
-    }
-
-    // Enhanced rocks with variety
-    for (let i = 0; i < 80; i++) {
-      const rockTypes = [
-        () => new THREE.DodecahedronGeometry(1 + Math.random() * 3),
-        () => new THREE.OctahedronGeometry(1 + Math.random() * 2.5),
-        () => new THREE.IcosahedronGeometry(1 + Math.random() * 2)
-      ];
-      
-      const rockGeometry = rockTypes[Math.floor(Math.random() * rockTypes.length)]();
-      const rockMaterial = new THREE.MeshLambertMaterial({ 
-        color: new THREE.Color().setHSL(0, 0, 0.3 + Math.random() * 0.3)
-      });
-      const rock = new THREE.Mesh(rockGeometry, rockMaterial);
-      
-      const x = (Math.random() - 0.5) * 350;
-      const z = (Math.random() - 0.5) * 350;
-      
-      if (Math.sqrt(x * x + z * z) > 12) {
-        rock.position.set(x, Math.random() * 3, z);
-        rock.rotation.set(
-          Math.random() * Math.PI,
-          Math.random() * Math.PI,
-          Math.random() * Math.PI
-        );
-        rock.castShadow = true;
-        rock.receiveShadow = true;
-        scene.add(rock);
-      }
-    }
+    // Biome-specific props (trees, buildings, cacti, crystals...), kept off the chests
+    const chests = treasureBoxesRef.current.map(box => ({ x: box.x, z: box.y }));
+    const props = populateEnvironment(scene, environment, collision, deriveRandom(seed, 'props'), chests);
 
     // Enhanced student character model
     const createStudentCharacter = () => {
@@ -393,184 +285,14 @@ export const GameCanvas: React.FC<GameCanvasProps> = ({
     };
 
     const playerMesh = createStudentCharacter();
-    playerMesh.position.set(player.x, 0, player.y);
+    const spawn = playerRef.current;
+    playerMesh.position.set(spawn.x, sampleTerrainHeight(spawn.x, spawn.y), spawn.y);
     scene.add(playerMesh);
     playerMeshRef.current = playerMesh;
 
-    // Enhanced treasure boxes with level-based appearance
-    treasureBoxes.forEach((box, index) => {
-      const boxGroup = new THREE.Group();
-      
-      // Determine treasure box style based on difficulty
-      const difficulty = box.question.difficulty;
-      let boxColor = 0x696969;
-      let glowColor = 0xFFD700;
-      let boxSize = 3;
-      
-      if (difficulty === 'easy') {
-        boxColor = box.isCompleted ? 0xFFD700 : box.isUnlocked ? 0x8B4513 : 0x696969;
-        glowColor = 0x32CD32;
-        boxSize = 2.5;
-      } else if (difficulty === 'medium') {
-        boxColor = box.isCompleted ? 0xFFD700 : box.isUnlocked ? 0x4169E1 : 0x696969;
-        glowColor = 0x4169E1;
-        boxSize = 3;
-      } else {
-        boxColor = box.isCompleted ? 0xFFD700 : box.isUnlocked ? 0x8B0000 : 0x696969;
-        glowColor = 0xFF4500;
-        boxSize = 3.5;
-      }
-      
-      // Main treasure chest with enhanced geometry
-      const boxGeometry = new THREE.BoxGeometry(boxSize, boxSize * 0.7, boxSize * 0.8);
-      const boxMaterial = new THREE.MeshLambertMaterial({ color: boxColor });
-      const boxMesh = new THREE.Mesh(boxGeometry, boxMaterial);
-      boxMesh.position.y = boxSize * 0.35;
-      boxMesh.castShadow = true;
-      boxMesh.receiveShadow = true;
-      boxMesh.userData = { type: 'treasureBox', id: box.id };
-      boxGroup.add(boxMesh);
-      
-      // Enhanced chest lid
-      const lidGeometry = new THREE.BoxGeometry(boxSize * 1.1, boxSize * 0.15, boxSize * 0.9);
-      const lidMaterial = new THREE.MeshLambertMaterial({ 
-        color: box.isCompleted ? 0xFFD700 : box.isUnlocked ? boxColor : 0x555555 
-      });
-      const lid = new THREE.Mesh(lidGeometry, lidMaterial);
-      lid.position.set(0, boxSize * 0.775, box.isCompleted ? -boxSize * 0.2 : 0);
-      lid.rotation.x = box.isCompleted ? -Math.PI / 3 : 0;
-      lid.castShadow = true;
-      boxGroup.add(lid);
-      
-      // Decorative elements based on difficulty
-      if (difficulty === 'medium' || difficulty === 'hard') {
-        // Add gems/decorations
-        for (let i = 0; i < 3; i++) {
-          const gemGeometry = new THREE.OctahedronGeometry(0.2);
-          const gemMaterial = new THREE.MeshLambertMaterial({ 
-            color: difficulty === 'hard' ? 0xFF0000 : 0x0000FF,
-            transparent: true,
-            opacity: 0.8
-          });
-          const gem = new THREE.Mesh(gemGeometry, gemMaterial);
-          gem.position.set(
-            (i - 1) * 0.8,
-            boxSize * 0.4,
-            boxSize * 0.4
-          );
-          gem.castShadow = true;
-          boxGroup.add(gem);
-        }
-      }
-      
-      // Lock system
-      if (!box.isUnlocked) {
-        const lockGeometry = new THREE.CylinderGeometry(0.4, 0.4, 0.3, 8);
-        const lockMaterial = new THREE.MeshLambertMaterial({ color: 0x444444 });
-        const lock = new THREE.Mesh(lockGeometry, lockMaterial);
-        lock.position.set(0, boxSize * 0.5, boxSize * 0.45);
-        lock.rotation.x = Math.PI / 2;
-        lock.castShadow = true;
-        boxGroup.add(lock);
-      }
-      
-      boxGroup.position.set(box.x, 0, box.y);
-      scene.add(boxGroup);
-
-      // Enhanced glow effect for unlocked boxes
-      if (box.isUnlocked && !box.isCompleted) {
-        const glowGeometry = new THREE.SphereGeometry(boxSize * 1.5, 16, 12);
-        const glowMaterial = new THREE.MeshBasicMaterial({ 
-          color: glowColor, 
-          transparent: true, 
-          opacity: 0.15
-        });
-        const glow = new THREE.Mesh(glowGeometry, glowMaterial);
-        glow.position.set(box.x, boxSize * 0.7, box.y);
-        scene.add(glow);
-        
-        // Particle effect
-        const particleCount = 20;
-        const particleGeometry = new THREE.BufferGeometry();
-        const positions = new Float32Array(particleCount * 3);
-        
-        for (let i = 0; i < particleCount * 3; i += 3) {
-          positions[i] = (Math.random() - 0.5) * 10;
-          positions[i + 1] = Math.random() * 8;
-          positions[i + 2] = (Math.random() - 0.5) * 10;
-        }
-        
-        particleGeometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
-        const particleMaterial = new THREE.PointsMaterial({
-          color: glowColor,
-          size: 0.3,
-          transparent: true,
-          opacity: 0.6
-        });
-        
-        const particles = new THREE.Points(particleGeometry, particleMaterial);
-        particles.position.set(box.x, 0, box.y);
-        scene.add(particles);
-        
-        // Animate effects
-        const animateEffects = () => {
-          const time = Date.now() * 0.001;
-          glow.material.opacity = 0.1 + Math.sin(time * 2) * 0.1;
-          glow.rotation.y += 0.01;
-          
-          // Animate particles
-          const positions = particles.geometry.attributes.position.array;
-          for (let i = 1; i < positions.length; i += 3) {
-            positions[i] += Math.sin(time + i) * 0.02;
-          }
-          particles.geometry.attributes.position.needsUpdate = true;
-          particles.rotation.y += 0.005;
-        };
-        
-        const effectsAnimation = () => {
-          animateEffects();
-          requestAnimationFrame(effectsAnimation);
-        };
-        effectsAnimation();
-      }
-
-      // Enhanced hint system
-      if (hintsEnabled && box.isUnlocked && !box.isCompleted && index === treasureBoxes.findIndex(b => b.isUnlocked && !b.isCompleted)) {
-        // Floating arrow with trail effect
-        const arrowGeometry = new THREE.ConeGeometry(0.8, 3, 8);
-        const arrowMaterial = new THREE.MeshBasicMaterial({ color: 0x00FF00 });
-        const arrow = new THREE.Mesh(arrowGeometry, arrowMaterial);
-        arrow.position.set(box.x, 8, box.y);
-        arrow.rotation.x = Math.PI;
-        scene.add(arrow);
-        
-        // Trail effect
-        const trailGeometry = new THREE.CylinderGeometry(0.1, 0.3, 2);
-        const trailMaterial = new THREE.MeshBasicMaterial({ 
-          color: 0x00FF00,
-          transparent: true,
-          opacity: 0.5
-        });
-        const trail = new THREE.Mesh(trailGeometry, trailMaterial);
-        trail.position.set(box.x, 10, box.y);
-        scene.add(trail);
-        
-        // Animate hint elements
-        const animateHint = () => {
-          const time = Date.now() * 0.003;
-          arrow.position.y = 8 + Math.sin(time) * 2;
-          arrow.rotation.z += 0.02;
-          trail.position.y = 10 + Math.sin(time + 1) * 1.5;
-          trail.material.opacity = 0.3 + Math.sin(time * 2) * 0.2;
-        };
-        
-        const hintAnimation = () => {
-          animateHint();
-          requestAnimationFrame(hintAnimation);
-        };
-        hintAnimation();
-      }
-    });
+    // Treasure chests follow game state through the chest layer
+    const chestLayer = createTreasureChestLayer(scene, theme, scheduler, collision);
+    chestLayerRef.current = chestLayer;
 
     // Enhanced input handling
     const handleMouseMove = (event: MouseEvent) => {
@@ -581,8 +303,9 @@ export const GameCanvas: React.FC<GameCanvasProps> = ({
       }
     };
 
-    const handleClick = () => {
-      if (renderer.domElement.requestPointerLock) {
+    const handleClick = (event: MouseEvent) => {
+      // Only the canvas itself captures the mouse, so overlay buttons and inputs stay usable
+      if (event.target === renderer.domElement && renderer.domElement.requestPointerLock) {
         renderer.domElement.requestPointerLock();
       }
     };
@@ -591,18 +314,29 @@ export const GameCanvas: React.FC<GameCanvasProps> = ({
       mouseRef.current.isLocked = document.pointerLockElement === renderer.domElement;
     };
 
+    const isTyping = (event: KeyboardEvent) =>
+      event.target instanceof HTMLInputElement || event.target instanceof HTMLTextAreaElement;
+
     const handleKeyDown = (event: KeyboardEvent) => {
+      if (isTyping(event)) return;
       keysRef.current[event.key.toLowerCase()] = true;
       if (event.key.toLowerCase() === ' ') {
         event.preventDefault();
-        if (!isJumping) {
-          setIsJumping(true);
+        if (!isJumpingRef.current) {
+          isJumpingRef.current = true;
           velocityRef.current.y = 0.5;
         }
       }
-      // Interaction key
-      if (event.key.toLowerCase() === 'e' && nearTreasure) {
-        onTreasureBoxInteract(nearTreasure.id);
+      // Toggle the frame-time readout
+      if (event.key.toLowerCase() === 'f') {
+        showStatsRef.current = !showStatsRef.current;
+        if (!showStatsRef.current) {
+          setFrameStats(null);
+        }
+      }
+      // Interaction key; ignored while a question is open, as the nearby chest is stale then
+      if (event.key.toLowerCase() === 'e' && nearTreasureRef.current && !pausedRef.current) {
+        onTreasureBoxInteractRef.current(nearTreasureRef.current.id);
       }
     };
 
@@ -617,9 +351,7 @@ export const GameCanvas: React.FC<GameCanvasProps> = ({
     document.addEventListener('pointerlockchange', handlePointerLockChange);
 
     // Enhanced game loop with better physics and interactions
-    const animate = () => {
-      requestAnimationFrame(animate);
-
+    const updatePlayer = () => {
       if (playerMeshRef.current && cameraRef.current) {
         const moveSpeed = 0.4;
         const currentPos = playerMeshRef.current.position;
@@ -660,20 +392,37 @@ export const GameCanvas: React.FC<GameCanvasProps> = ({
         newX = Math.max(-220, Math.min(220, newX));
         newZ = Math.max(-220, Math.min(220, newZ));
 
+        // Slide along trees, rocks and chests instead of passing through them
+        const resolved = collision.resolve(newX, newZ, PLAYER_RADIUS, newY);
+        newX = Math.max(-220, Math.min(220, resolved.x));
+        newZ = Math.max(-220, Math.min(220, resolved.z));
+
+        // Whatever the player is standing on: the ground or the top of an obstacle
+        const supportY = Math.max(
+          sampleTerrainHeight(newX, newZ),
+          collision.supportHeight(newX, newZ, PLAYER_RADIUS, newY)
+        );
+
         // Enhanced jump physics
-        if (isJumping) {
+        if (isJumpingRef.current) {
           newY += velocityRef.current.y;
           velocityRef.current.y -= 0.025; // Gravity
           
-          if (newY <= 0) {
-            newY = 0;
-            setIsJumping(false);
+          if (velocityRef.current.y < 0 && newY <= supportY) {
+            newY = supportY;
+            isJumpingRef.current = false;
             velocityRef.current.y = 0;
           }
+        } else if (newY > supportY + 0.01) {
+          // Walked off a ledge: start falling
+          isJumpingRef.current = true;
+          velocityRef.current.y = 0;
+        } else {
+          newY = supportY;
         }
 
         // Simple walking animation
-        if (isMoving && !isJumping) {
+        if (isMoving && !isJumpingRef.current) {
           const walkCycle = Math.sin(Date.now() * 0.01) * 0.1;
           playerMeshRef.current.rotation.z = walkCycle;
         } else {
@@ -698,33 +447,76 @@ export const GameCanvas: React.FC<GameCanvasProps> = ({
 
         // Update game state if position changed
         if (newX !== currentPos.x || newZ !== currentPos.z) {
-          onPlayerMove(newX, newZ);
-
-          // Enhanced treasure box interaction detection
-          let closestTreasure: TreasureBox | null = null;
-          let closestDistance = Infinity;
-
-          treasureBoxes.forEach(box => {
-            const distance = Math.sqrt(
-              Math.pow(newX - box.x, 2) + Math.pow(newZ - box.y, 2)
-            );
-            
-            if (distance < 8 && box.isUnlocked && !box.isCompleted) {
-              if (distance < closestDistance) {
-                closestDistance = distance;
-                closestTreasure = box;
-              }
+          onPlayerMoveRef.current(newX, newZ);
+        }
+
+        // Enhanced treasure box interaction detection
+        let closestTreasure: TreasureBox | null = null;
+        let closestDistance = Infinity;
+
+        treasureBoxesRef.current.forEach(box => {
+          const distance = Math.sqrt(
+            Math.pow(newX - box.x, 2) + Math.pow(newZ - box.y, 2)
+          );
+          
+          // Raised chests can only be opened once the player has climbed up to them
+          const canReach = newY >= sampleTerrainHeight(box.x, box.y) + box.elevation - STEP_HEIGHT;
+          
+          if (distance < 8 && canReach && box.isUnlocked && !box.isCompleted) {
+            if (distance < closestDistance) {
+              closestDistance = distance;
+              closestTreasure = box;
             }
-          });
+          }
+        });
 
+        if (closestTreasure !== nearTreasureRef.current) {
+          nearTreasureRef.current = closestTreasure;
           setNearTreasure(closestTreasure);
         }
       }
+    };
+
+    scheduler.register(updatePlayer);
+    scheduler.register(() => {
+      if (playerMeshRef.current) {
+        props.update(playerMeshRef.current.position.x, playerMeshRef.current.position.z);
+      }
+    });
+
+    // Average frame time over half-second windows for the stats readout
+    let statsWindowStart = performance.now();
+    let statsFrames = 0;
+    scheduler.register(() => {
+      statsFrames++;
+      const now = performance.now();
+      const elapsed = now - statsWindowStart;
+      if (elapsed < 500) return;
+      if (showStatsRef.current) {
+        setFrameStats({
+          fps: Math.round((statsFrames * 1000) / elapsed),
+          frameTime: elapsed / statsFrames,
+          drawCalls: renderer.info.render.calls,
+          triangles: renderer.info.render.triangles
+        });
+      }
+      statsWindowStart = now;
+      statsFrames = 0;
+    });
+    if (!pausedRef.current && !document.hidden) {
+      scheduler.start();
+    }
 
-      renderer.render(scene, camera);
+    // Stop drawing while the tab is in the background
+    const handleVisibilityChange = () => {
+      if (document.hidden || pausedRef.current) {
+        scheduler.pause();
+      } else {
+        scheduler.resume();
+      }
     };
 
-    animate();
+    document.addEventListener('visibilitychange', handleVisibilityChange);
 
     // Handle window resize
     const handleResize = () => {
@@ -739,19 +531,51 @@ export const GameCanvas: React.FC<GameCanvasProps> = ({
 
     // Cleanup
     return () => {
+      scheduler.dispose();
+      chestLayer.dispose();
+      props.dispose();
       document.removeEventListener('keydown', handleKeyDown);
       document.removeEventListener('keyup', handleKeyUp);
       document.removeEventListener('mousemove', handleMouseMove);
       document.removeEventListener('click', handleClick);
       document.removeEventListener('pointerlockchange', handlePointerLockChange);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
       window.removeEventListener('resize', handleResize);
-      
-      if (mountRef.current && renderer.domElement) {
-        mountRef.current.removeChild(renderer.domElement);
+
+      if (document.pointerLockElement === renderer.domElement) {
+        document.exitPointerLock();
       }
+
+      // Free every geometry, material and texture, then the WebGL context itself
+      disposeObject(scene);
+      mount.removeChild(renderer.domElement);
       renderer.dispose();
+      renderer.forceContextLoss();
+
+      schedulerRef.current = undefined;
+      chestLayerRef.current = undefined;
+      sceneRef.current = undefined;
+      rendererRef.current = undefined;
+      cameraRef.current = undefined;
+      playerMeshRef.current = undefined;
     };
-  }, []);
+  }, [environment, seed]);
+
+  // Freeze the world while a question is open
+  useEffect(() => {
+    const scheduler = schedulerRef.current;
+    if (!scheduler) return;
+    if (paused || document.hidden) {
+      scheduler.pause();
+    } else {
+      scheduler.resume();
+    }
+  }, [paused, environment, seed]);
+
+  // Add, remove and restyle chests whenever the boxes change
+  useEffect(() => {
+    chestLayerRef.current?.sync(treasureBoxes, hintsEnabled);
+  }, [treasureBoxes, hintsEnabled, environment, seed]);
 
   // Update player position when prop changes
   useEffect(() => {
@@ -763,13 +587,23 @@ export const GameCanvas: React.FC<GameCanvasProps> = ({
 
   return (
     <div ref={mountRef} className="w-full h-full cursor-none relative">
+      {/* Frame-time readout (press F) */}
+      {frameStats && (
+        <div className="absolute bottom-24 left-4 z-30 pointer-events-none bg-black bg-opacity-70 text-green-300 font-mono text-xs px-3 py-2 rounded-lg space-y-0.5">
+          <p>{frameStats.frameTime.toFixed(1)} ms / frame ({frameStats.fps} FPS)</p>
+          <p>{frameStats.drawCalls} draw calls</p>
+          <p>{frameStats.triangles.toLocaleString()} triangles</p>
+        </div>
+      )}
+
       {/* Enhanced interaction prompt */}
       {nearTreasure && (
         <div className="absolute top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 z-20 pointer-events-none">
           <div className="bg-black bg-opacity-80 text-white px-8 py-4 rounded-2xl text-center border-2 border-yellow-400 animate-pulse">
             <div className="text-2xl mb-2">🏆</div>
-            <p className="text-xl font-bold mb-2">Treasure Found!</p>
+            <p className="text-xl font-bold mb-2">{nearTreasure.isReview ? 'Review Chest!' : 'Treasure Found!'}</p>
             <p className="text-lg mb-1">{nearTreasure.question.difficulty.toUpperCase()} Level</p>
+            {nearTreasure.isReview && <p className="text-sm text-cyan-300 mb-1">A question to try again</p>}
             <p className="text-sm text-yellow-300">Press E to open treasure chest</p>
           </div>
         </div>
@@ -780,7 +614,7 @@ export const GameCanvas: React.FC<GameCanvasProps> = ({
         <div className="bg-black bg-opacity-70 text-white px-8 py-6 rounded-2xl text-center border border-white border-opacity-30">
           <div className="text-4xl mb-4">🎮</div>
           <p className="text-2xl font-bold mb-4">Welcome to Math Adventure!</p>
-          <p className="text-lg mb-2">Click to start exploring the jungle!</p>
+          <p className="text-lg mb-2">Click to start exploring the {environmentThemes[environment].name.toLowerCase()}!</p>
           <div className="text-sm mt-4 space-y-1 text-gray-300">
             <p><span className="font-semibold">WASD</span> - Move around</p>
             <p><span className="font-semibold">Mouse</span> - Look around</p>
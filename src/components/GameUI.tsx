@@ -1,6 +1,6 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { Player } from '../types/game';
-import { Coins, Star, Map, Lightbulb, Trophy, Target } from 'lucide-react';
+import { Coins, Star, Map, Lightbulb, Trophy, Target, Globe } from 'lucide-react';
 
 interface GameUIProps {
   player: Player;
@@ -16,6 +16,8 @@ interface GameUIProps {
     xpNeeded: number;
     progressPercentage: number;
   };
+  worldCode: string;
+  onPlayWorldCode: (code: string) => boolean;
 }
 
 export const GameUI: React.FC<GameUIProps> = ({
@@ -24,9 +26,25 @@ export const GameUI: React.FC<GameUIProps> = ({
   onToggleHints,
   completedBoxes,
   totalBoxes,
-  getProgressInfo
+  getProgressInfo,
+  worldCode,
+  onPlayWorldCode
 }) => {
   const progressInfo = getProgressInfo();
+  const [showWorldPanel, setShowWorldPanel] = useState(false);
+  const [codeInput, setCodeInput] = useState('');
+  const [codeError, setCodeError] = useState(false);
+
+  const handlePlayCode = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (onPlayWorldCode(codeInput)) {
+      setCodeInput('');
+      setCodeError(false);
+      setShowWorldPanel(false);
+    } else {
+      setCodeError(true);
+    }
+  };
 
   return (
     <>
@@ -83,6 +101,47 @@ export const GameUI: React.FC<GameUIProps> = ({
                 </div>
               </div>
               
+              {/* Shareable world code */}
+              <div className="relative">
+                <button
+                  onClick={() => setShowWorldPanel(!showWorldPanel)}
+                  className="flex items-center space-x-2 px-4 py-2 rounded-xl bg-blue-100 text-blue-700 hover:bg-blue-200 transition-all duration-200"
+                  title="Share this world"
+                >
+                  <Globe size={18} />
+                  <span className="font-mono font-medium">{worldCode}</span>
+                </button>
+
+                {showWorldPanel && (
+                  <div className="absolute right-0 mt-2 w-72 bg-white rounded-xl shadow-xl p-4 border border-gray-100 z-50">
+                    <p className="text-sm text-gray-600 mb-3">
+                      Share <span className="font-mono font-bold text-gray-800">{worldCode}</span> so everyone explores the same world.
+                    </p>
+                    <form onSubmit={handlePlayCode} className="space-y-2">
+                      <input
+                        value={codeInput}
+                        onChange={(event) => {
+                          setCodeInput(event.target.value);
+                          setCodeError(false);
+                        }}
+                        placeholder="Enter a world code"
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg font-mono uppercase focus:outline-none focus:border-blue-500"
+                      />
+                      {codeError && (
+                        <p className="text-xs text-red-600">That code doesn't look right. It should look like {worldCode}.</p>
+                      )}
+                      <button
+                        type="submit"
+                        disabled={!codeInput.trim()}
+                        className="w-full py-2 rounded-lg bg-blue-500 hover:bg-blue-600 text-white font-medium disabled:bg-gray-300 disabled:text-gray-500"
+                      >
+                        Play this world
+                      </button>
+                    </form>
+                  </div>
+                )}
+              </div>
+
               {/* Hints Toggle */}
               <button
                 onClick={onToggleHints}
@@ -211,6 +270,14 @@ export const GameUI: React.FC<GameUIProps> = ({
               <span className="font-medium">Click</span>
               <span>Lock cursor</span>
             </div>
+            <div className="flex justify-between">
+              <span className="font-medium">F</span>
+              <span>Frame stats</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="font-medium">K</span>
+              <span>Skill estimates</span>
+            </div>
           </div>
           <div className="mt-3 p-2 bg-green-50 rounded-lg">
             <p className="text-green-700 font-medium text-sm flex items-center">
@@ -0,0 +1,214 @@
+import React, { useMemo, useState } from 'react';
+import { Environment, HuntConfig, Profile, Question } from '../types/game';
+import { NCERT_CHAPTERS } from '../data/curriculum';
+import { environmentOrder, environmentThemes } from '../data/environments';
+import { countQuestions } from '../data/questions';
+import { DEFAULT_HUNT_CONFIG, DIFFICULTIES, MAX_CHESTS, MIN_CHESTS, planHunt, splitChests } from '../utils/hunt';
+import { TreePine, Play, ArrowLeft, Users, AlertTriangle } from 'lucide-react';
+
+interface HuntSetupProps {
+  profile: Profile;
+  onStart: (config: HuntConfig, environment: Environment) => void;
+  // Only offered when there is a saved hunt to go back to
+  onBack?: () => void;
+  onSwitchProfile: () => void;
+}
+
+const DIFFICULTY_MIXES: { name: string; mix: Record<Question['difficulty'], number> }[] = [
+  { name: 'Gentle', mix: { easy: 6, medium: 3, hard: 1 } },
+  { name: 'Balanced', mix: DEFAULT_HUNT_CONFIG.difficultyMix },
+  { name: 'Tough', mix: { easy: 2, medium: 3, hard: 4 } }
+];
+
+const GRADES = Object.keys(NCERT_CHAPTERS).map(Number);
+
+const describeSplit = (counts: Record<Question['difficulty'], number>) =>
+  DIFFICULTIES.filter(difficulty => counts[difficulty] > 0)
+    .map(difficulty => `${counts[difficulty]} ${difficulty}`)
+    .join(' · ');
+
+const optionClass = (selected: boolean) =>
+  `rounded-xl font-bold transition-all duration-200 ${
+    selected ? 'bg-green-500 text-white shadow-lg' : 'bg-gray-100 hover:bg-gray-200 text-gray-700'
+  }`;
+
+// The start menu: what the hunt covers and where it happens, chosen before the world is generated
+export const HuntSetup: React.FC<HuntSetupProps> = ({ profile, onStart, onBack, onSwitchProfile }) => {
+  const [grade, setGrade] = useState<number | undefined>(undefined);
+  // None ticked means every chapter of the class
+  const [chapters, setChapters] = useState<string[]>([]);
+  const [chestCount, setChestCount] = useState(DEFAULT_HUNT_CONFIG.chestCount);
+  const [difficultyMix, setDifficultyMix] = useState(DEFAULT_HUNT_CONFIG.difficultyMix);
+  const [environment, setEnvironment] = useState<Environment>('jungle');
+
+  const config: HuntConfig = {
+    ...(grade !== undefined && { grade }),
+    ...(chapters.length > 0 && { chapters }),
+    chestCount,
+    difficultyMix
+  };
+  const plan = planHunt(config);
+  const plannedChests = DIFFICULTIES.reduce((sum, difficulty) => sum + plan[difficulty], 0);
+  const wanted = splitChests(config.chestCount, config.difficultyMix);
+  const isReshuffled = DIFFICULTIES.some(difficulty => plan[difficulty] !== wanted[difficulty]);
+
+  // Chapters without a single question can't be part of a hunt
+  const playableChapters = useMemo(() => new Set(
+    grade === undefined
+      ? []
+      : NCERT_CHAPTERS[grade].filter(chapter =>
+          DIFFICULTIES.some(difficulty => countQuestions(difficulty, { grade, chapters: [chapter] }) > 0)
+        )
+  ), [grade]);
+
+  const chooseGrade = (next: number | undefined) => {
+    setGrade(next);
+    setChapters([]);
+  };
+
+  const toggleChapter = (chapter: string) => {
+    setChapters(chapters.includes(chapter) ? chapters.filter(c => c !== chapter) : [...chapters, chapter]);
+  };
+
+  return (
+    <div className={`w-full min-h-screen bg-gradient-to-b ${environmentThemes[environment].backgroundClass} flex items-center justify-center p-4`}>
+      <div className="bg-white bg-opacity-95 rounded-3xl shadow-2xl p-8 w-full max-w-3xl space-y-6">
+        <div className="flex items-center space-x-4">
+          <div className="bg-green-100 p-2 rounded-xl">
+            <TreePine className="text-green-600" size={32} />
+          </div>
+          <div>
+            <h1 className="text-3xl font-bold text-gray-800">NCERT Math Adventure</h1>
+            <p className="text-gray-600">Set up {profile.name}'s treasure hunt</p>
+          </div>
+        </div>
+
+        <section>
+          <h2 className="font-bold text-gray-800 mb-2">Class</h2>
+          <div className="flex flex-wrap gap-2">
+            <button onClick={() => chooseGrade(undefined)} className={`px-4 py-2 ${optionClass(grade === undefined)}`}>
+              All classes
+            </button>
+            {GRADES.map(option => (
+              <button key={option} onClick={() => chooseGrade(option)} className={`px-4 py-2 ${optionClass(grade === option)}`}>
+                Class {option}
+              </button>
+            ))}
+          </div>
+        </section>
+
+        {grade !== undefined && (
+          <section>
+            <h2 className="font-bold text-gray-800">Chapters</h2>
+            <p className="text-sm text-gray-500 mb-2">Tick the chapters to practise, or leave them all unticked for the whole book.</p>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 max-h-64 overflow-y-auto">
+              {NCERT_CHAPTERS[grade].map((chapter, index) => {
+                const isPlayable = playableChapters.has(chapter);
+                return (
+                  <label
+                    key={chapter}
+                    className={`flex items-center space-x-3 rounded-xl p-2 ${
+                      isPlayable ? 'bg-gray-50 hover:bg-gray-100 cursor-pointer' : 'bg-gray-50 opacity-50'
+                    }`}
+                  >
+                    <input
+                      type="checkbox"
+                      checked={chapters.includes(chapter)}
+                      disabled={!isPlayable}
+                      onChange={() => toggleChapter(chapter)}
+                      className="w-4 h-4 accent-green-600"
+                    />
+                    <span className="text-sm text-gray-800">
+                      {index + 1}. {chapter}
+                      {!isPlayable && <span className="text-gray-500"> (no questions yet)</span>}
+                    </span>
+                  </label>
+                );
+              })}
+            </div>
+          </section>
+        )}
+
+        <section>
+          <h2 className="font-bold text-gray-800 mb-2">Treasure chests: {chestCount}</h2>
+          <input
+            type="range"
+            min={MIN_CHESTS}
+            max={MAX_CHESTS}
+            value={chestCount}
+            onChange={event => setChestCount(Number(event.target.value))}
+            className="w-full accent-green-600"
+          />
+        </section>
+
+        <section>
+          <h2 className="font-bold text-gray-800 mb-2">Difficulty</h2>
+          <div className="grid grid-cols-3 gap-2">
+            {DIFFICULTY_MIXES.map(option => (
+              <button key={option.name} onClick={() => setDifficultyMix(option.mix)} className={`p-3 ${optionClass(difficultyMix === option.mix)}`}>
+                <span className="block">{option.name}</span>
+                <span className="block text-xs font-normal">{describeSplit(splitChests(chestCount, option.mix))}</span>
+              </button>
+            ))}
+          </div>
+        </section>
+
+        <section>
+          <h2 className="font-bold text-gray-800 mb-2">Where to explore</h2>
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+            {environmentOrder.map(option => (
+              <button key={option} onClick={() => setEnvironment(option)} className={`p-3 text-left ${optionClass(environment === option)}`}>
+                <span className="block">{environmentThemes[option].name}</span>
+                <span className="block text-xs font-normal">{environmentThemes[option].description}</span>
+              </button>
+            ))}
+          </div>
+        </section>
+
+        {plannedChests === 0 ? (
+          <p className="flex items-center space-x-2 bg-red-50 text-red-700 text-sm rounded-xl p-3">
+            <AlertTriangle size={16} className="flex-shrink-0" />
+            <span>There are no questions for these chapters yet. Pick other chapters or add a question pack.</span>
+          </p>
+        ) : isReshuffled && (
+          <p className="flex items-center space-x-2 bg-amber-50 text-amber-800 text-sm rounded-xl p-3">
+            <AlertTriangle size={16} className="flex-shrink-0" />
+            <span>
+              {plannedChests < chestCount
+                ? `These chapters only have enough questions for ${plannedChests} chest${plannedChests !== 1 ? 's' : ''}`
+                : 'These chapters are short of some difficulties'}
+              , so the hunt will have {describeSplit(plan)}.
+            </span>
+          </p>
+        )}
+
+        <div className="flex flex-wrap gap-3">
+          <button
+            onClick={() => onStart(config, environment)}
+            disabled={plannedChests === 0}
+            className="flex-1 flex items-center justify-center space-x-2 bg-gradient-to-r from-green-500 to-green-600 hover:from-green-600 hover:to-green-700 disabled:opacity-50 text-white px-6 py-3 rounded-xl font-bold text-lg transition-all duration-200"
+          >
+            <Play size={20} />
+            <span>Start Hunt</span>
+          </button>
+          {onBack && (
+            <button
+              onClick={onBack}
+              className="flex items-center space-x-2 bg-gray-100 hover:bg-gray-200 text-gray-700 px-6 py-3 rounded-xl font-bold transition-all duration-200"
+            >
+              <ArrowLeft size={20} />
+              <span>Back to my hunt</span>
+            </button>
+          )}
+          <button
+            onClick={onSwitchProfile}
+            className="flex items-center space-x-2 bg-gray-100 hover:bg-gray-200 text-gray-700 px-6 py-3 rounded-xl font-bold transition-all duration-200"
+          >
+            <Users size={20} />
+            <span>Switch Player</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,104 @@
+import React, { useState } from 'react';
+import { MathText } from './MathText';
+
+interface MatchingInputProps {
+  pairs: { left: string; right: string }[];
+  // Pair indexes in the order the right column is shown
+  rightOrder: number[];
+  // For each left item, the pair index of its chosen right item, or -1
+  matches: number[];
+  onChange: (matches: number[]) => void;
+}
+
+const MATCH_COLORS = ['bg-blue-500', 'bg-purple-500', 'bg-orange-500', 'bg-teal-500', 'bg-pink-500', 'bg-yellow-500'];
+
+// Tap a left item then a right item (or drag right onto left) to pair them up
+export const MatchingInput: React.FC<MatchingInputProps> = ({ pairs, rightOrder, matches, onChange }) => {
+  const [activeLeft, setActiveLeft] = useState<number | null>(null);
+  const [activeRight, setActiveRight] = useState<number | null>(null);
+  const [dragRight, setDragRight] = useState<number | null>(null);
+
+  const connect = (left: number, right: number) => {
+    // A right item can only belong to one left item at a time
+    const next = matches.map(match => (match === right ? -1 : match));
+    next[left] = right;
+    onChange(next);
+    setActiveLeft(null);
+    setActiveRight(null);
+  };
+
+  const handleLeftTap = (left: number) => {
+    if (activeRight !== null) {
+      connect(left, activeRight);
+    } else if (matches[left] !== -1 && activeLeft === null) {
+      // Tapping a matched item undoes the match
+      onChange(matches.map((match, index) => (index === left ? -1 : match)));
+    } else {
+      setActiveLeft(activeLeft === left ? null : left);
+    }
+  };
+
+  const handleRightTap = (right: number) => {
+    if (activeLeft !== null) {
+      connect(activeLeft, right);
+    } else {
+      setActiveRight(activeRight === right ? null : right);
+    }
+  };
+
+  const colorFor = (left: number) => MATCH_COLORS[left % MATCH_COLORS.length];
+  const leftFor = (right: number) => matches.indexOf(right);
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-gray-500">Tap an item on each side to match them, or drag from the right column onto the left.</p>
+      <div className="grid grid-cols-2 gap-6">
+        <div className="space-y-3">
+          {pairs.map((pair, left) => (
+            <button
+              key={left}
+              onClick={() => handleLeftTap(left)}
+              onDragOver={(event) => event.preventDefault()}
+              onDrop={(event) => {
+                event.preventDefault();
+                if (dragRight !== null) connect(left, dragRight);
+                setDragRight(null);
+              }}
+              className={`w-full p-4 text-left rounded-2xl border-2 flex items-center space-x-3 transition-all duration-200 ${
+                activeLeft === left
+                  ? 'border-blue-500 bg-blue-50 shadow-lg scale-[1.02]'
+                  : 'border-gray-200 hover:border-blue-300 hover:shadow-md'
+              }`}
+            >
+              <span className={`w-4 h-4 rounded-full flex-shrink-0 ${matches[left] !== -1 ? colorFor(left) : 'bg-gray-200'}`} />
+              <MathText text={pair.left} className="text-lg text-gray-800 font-medium" />
+            </button>
+          ))}
+        </div>
+
+        <div className="space-y-3">
+          {rightOrder.map(right => {
+            const matchedLeft = leftFor(right);
+            return (
+              <button
+                key={right}
+                draggable
+                onClick={() => handleRightTap(right)}
+                onDragStart={() => setDragRight(right)}
+                onDragEnd={() => setDragRight(null)}
+                className={`w-full p-4 text-left rounded-2xl border-2 flex items-center space-x-3 transition-all duration-200 cursor-grab active:cursor-grabbing ${
+                  activeRight === right
+                    ? 'border-blue-500 bg-blue-50 shadow-lg scale-[1.02]'
+                    : 'border-gray-200 hover:border-blue-300 hover:shadow-md'
+                }`}
+              >
+                <span className={`w-4 h-4 rounded-full flex-shrink-0 ${matchedLeft !== -1 ? colorFor(matchedLeft) : 'bg-gray-200'}`} />
+                <MathText text={pairs[right].right} className="text-lg text-gray-800 font-medium" />
+              </button>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,54 @@
+import React, { useMemo } from 'react';
+import { MathNode, nodesToPlainText, parseMathText } from '../utils/mathMarkup';
+
+interface MathTextProps {
+  text: string;
+  className?: string;
+}
+
+const renderNodes = (nodes: MathNode[]): React.ReactNode[] =>
+  nodes.map((node, index) => {
+    switch (node.kind) {
+      case 'text':
+        return node.italic
+          ? <span key={index} className="font-serif italic">{node.text}</span>
+          : <span key={index}>{node.text}</span>;
+      case 'fraction':
+        return (
+          <span key={index} className="inline-flex flex-col items-center align-middle mx-0.5 text-[0.85em] leading-tight">
+            <span className="px-1">{renderNodes(node.numerator)}</span>
+            <span className="px-1 w-full text-center border-t-2 border-current">{renderNodes(node.denominator)}</span>
+          </span>
+        );
+      case 'superscript':
+        return <sup key={index} className="text-[0.7em]">{renderNodes(node.content)}</sup>;
+      case 'subscript':
+        return <sub key={index} className="text-[0.7em]">{renderNodes(node.content)}</sub>;
+      case 'sqrt':
+        return (
+          <span key={index} className="inline-flex items-stretch">
+            <span>√</span>
+            <span className="border-t-2 border-current px-0.5">{renderNodes(node.content)}</span>
+          </span>
+        );
+    }
+  });
+
+// Question text with $...$ math typeset as stacked fractions, powers and symbols
+export const MathText: React.FC<MathTextProps> = ({ text, className }) => {
+  const segments = useMemo(() => parseMathText(text), [text]);
+
+  return (
+    <span className={className}>
+      {segments.map((segment, index) =>
+        segment.kind === 'prose'
+          ? <React.Fragment key={index}>{segment.text}</React.Fragment>
+          : (
+            <span key={index} role="math" aria-label={nodesToPlainText(segment.nodes)} className="whitespace-nowrap">
+              {renderNodes(segment.nodes)}
+            </span>
+          )
+      )}
+    </span>
+  );
+};
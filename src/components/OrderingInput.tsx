@@ -0,0 +1,74 @@
+import React, { useState } from 'react';
+import { MathText } from './MathText';
+import { GripVertical } from 'lucide-react';
+
+interface OrderingInputProps {
+  items: string[];
+  // Item indexes in the order they are shown
+  order: number[];
+  onChange: (order: number[]) => void;
+}
+
+// Drag a row to a new place, or tap two rows to swap them
+export const OrderingInput: React.FC<OrderingInputProps> = ({ items, order, onChange }) => {
+  const [dragPosition, setDragPosition] = useState<number | null>(null);
+  const [tappedPosition, setTappedPosition] = useState<number | null>(null);
+
+  const move = (from: number, to: number) => {
+    if (from === to) return;
+    const next = [...order];
+    const [item] = next.splice(from, 1);
+    next.splice(to, 0, item);
+    onChange(next);
+  };
+
+  const handleTap = (position: number) => {
+    if (tappedPosition === null) {
+      setTappedPosition(position);
+      return;
+    }
+    if (tappedPosition !== position) {
+      const next = [...order];
+      [next[tappedPosition], next[position]] = [next[position], next[tappedPosition]];
+      onChange(next);
+    }
+    setTappedPosition(null);
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-gray-500">Drag the rows into order, or tap two rows to swap them.</p>
+      {order.map((itemIndex, position) => (
+        <button
+          key={itemIndex}
+          draggable
+          onClick={() => handleTap(position)}
+          onDragStart={() => {
+            setDragPosition(position);
+            setTappedPosition(null);
+          }}
+          onDragOver={(event) => event.preventDefault()}
+          onDrop={(event) => {
+            event.preventDefault();
+            if (dragPosition !== null) move(dragPosition, position);
+            setDragPosition(null);
+          }}
+          onDragEnd={() => setDragPosition(null)}
+          className={`w-full p-4 text-left rounded-2xl border-2 flex items-center space-x-4 transition-all duration-200 cursor-grab active:cursor-grabbing ${
+            tappedPosition === position
+              ? 'border-blue-500 bg-blue-50 shadow-lg scale-[1.02]'
+              : dragPosition === position
+                ? 'border-blue-300 bg-blue-50 opacity-60'
+                : 'border-gray-200 hover:border-blue-300 hover:shadow-md'
+          }`}
+        >
+          <div className="w-8 h-8 rounded-full border-2 border-gray-300 text-gray-500 flex items-center justify-center font-bold">
+            {position + 1}
+          </div>
+          <MathText text={items[itemIndex]} className="flex-1 text-lg text-gray-800 font-medium" />
+          <GripVertical className="text-gray-400" size={20} />
+        </button>
+      ))}
+    </div>
+  );
+};
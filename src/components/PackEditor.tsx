@@ -0,0 +1,335 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { Question, QuestionPack } from '../types/game';
+import { createDraftId, PackDraft, usePackDrafts } from '../hooks/usePackDrafts';
+import { downloadQuestionPack, PackIssue, validateQuestionPack } from '../utils/questionPack';
+import { createBlankPack, createBlankQuestion, nextQuestionId, withPackCurriculum } from '../utils/questionAuthoring';
+import { QuestionForm } from './QuestionForm';
+import { QuestionModal } from './QuestionModal';
+import { ArrowLeft, Plus, Upload, Download, Check, Trash2, AlertTriangle, FileText } from 'lucide-react';
+
+interface PackEditorProps {
+  // Adds the pack to this device's question bank; returns the problems found, if any
+  onInstall: (text: string) => PackIssue[];
+  onClose: () => void;
+}
+
+const inputClass = 'w-full px-3 py-2 rounded-lg border border-gray-200 focus:border-blue-500 outline-none';
+const labelClass = 'block text-sm font-semibold text-gray-600 mb-1';
+
+const DIFFICULTY_DOTS: Record<Question['difficulty'], string> = {
+  easy: 'bg-green-500',
+  medium: 'bg-blue-500',
+  hard: 'bg-red-500'
+};
+
+// Screen where teachers write question packs, with the question shown as players will see it
+export const PackEditor: React.FC<PackEditorProps> = ({ onInstall, onClose }) => {
+  const { drafts, saveDraft, deleteDraft } = usePackDrafts();
+  const [selectedDraftId, setSelectedDraftId] = useState<string | null>(null);
+  const [selectedQuestion, setSelectedQuestion] = useState(0);
+  const [previewRun, setPreviewRun] = useState(0);
+  const [pendingDelete, setPendingDelete] = useState(false);
+  const [notice, setNotice] = useState<{ text: string; errors: PackIssue[] } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const draft = drafts?.find(candidate => candidate.id === selectedDraftId) ?? null;
+  const question = draft?.pack.questions[selectedQuestion] ?? null;
+
+  // Messages only; line numbers mean nothing until the pack is a file
+  const problems = useMemo(
+    () => {
+      if (!draft) return [];
+      const result = validateQuestionPack(JSON.stringify(draft.pack));
+      return result.ok ? [] : result.errors.map(error => error.message);
+    },
+    [draft]
+  );
+
+  const selectDraft = (draftId: string) => {
+    setSelectedDraftId(draftId);
+    setSelectedQuestion(0);
+    setPendingDelete(false);
+    setNotice(null);
+  };
+
+  const addDraft = (pack: QuestionPack) => {
+    const now = Date.now();
+    const created: PackDraft = { id: createDraftId(), createdAt: now, updatedAt: now, pack };
+    saveDraft(created);
+    selectDraft(created.id);
+  };
+
+  const updatePack = (change: (pack: QuestionPack) => QuestionPack) => {
+    if (!draft) return;
+    saveDraft({ ...draft, updatedAt: Date.now(), pack: withPackCurriculum(change(draft.pack)) });
+  };
+
+  const updateQuestion = (updated: Question) => {
+    updatePack(pack => ({
+      ...pack,
+      questions: pack.questions.map((existing, index) => (index === selectedQuestion ? updated : existing))
+    }));
+  };
+
+  const addQuestion = () => {
+    if (!draft) return;
+    updatePack(pack => ({ ...pack, questions: [...pack.questions, createBlankQuestion(nextQuestionId(pack), pack.metadata)] }));
+    setSelectedQuestion(draft.pack.questions.length);
+  };
+
+  const removeQuestion = (removed: number) => {
+    updatePack(pack => ({ ...pack, questions: pack.questions.filter((_, index) => index !== removed) }));
+    const remaining = (draft?.pack.questions.length ?? 1) - 1;
+    setSelectedQuestion(current => Math.max(0, Math.min(removed < current ? current - 1 : current, remaining - 1)));
+  };
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    const result = validateQuestionPack(await file.text());
+    if (result.ok) {
+      addDraft(result.pack);
+    } else {
+      setNotice({ text: `${file.name} could not be opened:`, errors: result.errors });
+    }
+  };
+
+  const install = () => {
+    if (!draft) return;
+    const errors = onInstall(JSON.stringify(draft.pack, null, 2));
+    setNotice(errors.length > 0
+      ? { text: 'The pack could not be added to this device:', errors }
+      : { text: `"${draft.pack.metadata.title}" is now part of every hunt on this device.`, errors: [] });
+  };
+
+  const updateMetadata = (changes: Partial<QuestionPack['metadata']>) =>
+    updatePack(pack => ({ ...pack, metadata: { ...pack.metadata, ...changes } }));
+
+  return (
+    <div className="w-full min-h-screen bg-gradient-to-b from-indigo-500 to-indigo-700 p-4">
+      <div className="flex items-center justify-between mb-4">
+        <button
+          onClick={onClose}
+          className="flex items-center space-x-2 bg-white bg-opacity-95 hover:bg-opacity-100 text-gray-700 px-4 py-2 rounded-xl shadow-lg font-medium"
+        >
+          <ArrowLeft size={18} />
+          <span>Back</span>
+        </button>
+        <h1 className="text-2xl font-bold text-white">Question Editor</h1>
+        <div className="w-24" />
+      </div>
+
+      <div className="grid gap-4 lg:grid-cols-[16rem_minmax(0,1fr)_minmax(0,1fr)] items-start">
+        {/* Packs and their questions */}
+        <aside className="bg-white rounded-2xl shadow-xl p-4 space-y-4">
+          <div>
+            <h2 className="font-bold text-gray-800 mb-2">Packs</h2>
+            {drafts === null && <p className="text-sm text-gray-500">Loading…</p>}
+            <div className="space-y-1">
+              {drafts?.map(candidate => (
+                <button
+                  key={candidate.id}
+                  onClick={() => selectDraft(candidate.id)}
+                  className={`w-full flex items-center space-x-2 text-left px-3 py-2 rounded-lg truncate ${
+                    candidate.id === selectedDraftId ? 'bg-indigo-100 text-indigo-800 font-bold' : 'hover:bg-gray-100 text-gray-700'
+                  }`}
+                >
+                  <FileText size={16} className="flex-shrink-0" />
+                  <span className="truncate">{candidate.pack.metadata.title || 'Untitled pack'}</span>
+                </button>
+              ))}
+            </div>
+            <div className="flex space-x-2 mt-2">
+              <button
+                onClick={() => addDraft(createBlankPack())}
+                className="flex-1 flex items-center justify-center space-x-1 py-2 rounded-lg bg-indigo-500 hover:bg-indigo-600 text-white text-sm font-medium"
+              >
+                <Plus size={16} />
+                <span>New pack</span>
+              </button>
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                className="flex-1 flex items-center justify-center space-x-1 py-2 rounded-lg bg-gray-100 hover:bg-gray-200 text-gray-700 text-sm font-medium"
+              >
+                <Upload size={16} />
+                <span>Open file</span>
+              </button>
+              <input ref={fileInputRef} type="file" accept="application/json,.json" onChange={handleFile} className="hidden" />
+            </div>
+          </div>
+
+          {draft && (
+            <div>
+              <h2 className="font-bold text-gray-800 mb-2">Questions</h2>
+              <div className="space-y-1">
+                {draft.pack.questions.map((candidate, index) => (
+                  <div key={index} className="group flex items-center">
+                    <button
+                      onClick={() => setSelectedQuestion(index)}
+                      className={`flex-1 min-w-0 flex items-center space-x-2 text-left px-3 py-2 rounded-lg ${
+                        index === selectedQuestion ? 'bg-indigo-100 text-indigo-800' : 'hover:bg-gray-100 text-gray-700'
+                      }`}
+                    >
+                      <span className={`w-2 h-2 rounded-full flex-shrink-0 ${DIFFICULTY_DOTS[candidate.difficulty]}`} />
+                      <span className="truncate text-sm">{candidate.question || candidate.id}</span>
+                    </button>
+                    <button
+                      onClick={() => removeQuestion(index)}
+                      className="p-1 text-gray-400 hover:text-red-500 opacity-0 group-hover:opacity-100"
+                      title="Delete question"
+                    >
+                      <Trash2 size={14} />
+                    </button>
+                  </div>
+                ))}
+              </div>
+              <button
+                onClick={addQuestion}
+                className="mt-2 w-full flex items-center justify-center space-x-1 py-2 rounded-lg border-2 border-dashed border-gray-300 hover:border-indigo-500 text-gray-600 hover:text-indigo-600 text-sm font-medium"
+              >
+                <Plus size={16} />
+                <span>Add question</span>
+              </button>
+            </div>
+          )}
+        </aside>
+
+        {/* Pack details and the selected question */}
+        <main className="bg-white rounded-2xl shadow-xl p-6 space-y-6">
+          {notice && (
+            <div className={`text-sm rounded-xl p-3 ${notice.errors.length > 0 ? 'bg-red-50 text-red-700' : 'bg-green-50 text-green-700'}`}>
+              <p className="flex items-center space-x-2 font-bold">
+                {notice.errors.length > 0 ? <AlertTriangle size={16} /> : <Check size={16} />}
+                <span>{notice.text}</span>
+              </p>
+              {notice.errors.length > 0 && (
+                <ul className="mt-2 space-y-1 max-h-40 overflow-y-auto font-mono text-xs">
+                  {notice.errors.map((error, index) => (
+                    <li key={index}>Line {error.line}: {error.message}</li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+
+          {!draft ? (
+            <p className="text-gray-500">Pick a pack on the left, start a new one or open a pack file.</p>
+          ) : (
+            <>
+              <div className="grid grid-cols-2 gap-3">
+                <label className="col-span-2">
+                  <span className={labelClass}>Pack title</span>
+                  <input type="text" value={draft.pack.metadata.title} onChange={event => updateMetadata({ title: event.target.value })} className={inputClass} />
+                </label>
+                <label>
+                  <span className={labelClass}>Class</span>
+                  <select value={draft.pack.metadata.class} onChange={event => updateMetadata({ class: parseInt(event.target.value, 10) })} className={inputClass}>
+                    {Array.from({ length: 12 }, (_, index) => index + 1).map(level => (
+                      <option key={level} value={level}>Class {level}</option>
+                    ))}
+                  </select>
+                </label>
+                <label>
+                  <span className={labelClass}>Chapter</span>
+                  <input type="text" value={draft.pack.metadata.chapter} onChange={event => updateMetadata({ chapter: event.target.value })} className={inputClass} />
+                </label>
+                <label>
+                  <span className={labelClass}>Author</span>
+                  <input type="text" value={draft.pack.metadata.author} onChange={event => updateMetadata({ author: event.target.value })} className={inputClass} />
+                </label>
+                <label>
+                  <span className={labelClass}>Language</span>
+                  <input type="text" value={draft.pack.metadata.language} onChange={event => updateMetadata({ language: event.target.value })} placeholder="en" className={inputClass} />
+                </label>
+              </div>
+
+              <div className="border-t border-gray-200 pt-6">
+                {question ? (
+                  <QuestionForm question={question} onChange={updateQuestion} />
+                ) : (
+                  <p className="text-gray-500">This pack has no questions yet. Add one from the list on the left.</p>
+                )}
+              </div>
+
+              {problems.length > 0 && (
+                <div className="bg-yellow-50 text-yellow-800 text-sm rounded-xl p-3">
+                  <p className="font-bold mb-1">Fix these before sharing the pack:</p>
+                  <ul className="list-disc list-inside space-y-0.5 max-h-40 overflow-y-auto">
+                    {problems.map((problem, index) => (
+                      <li key={index}>{problem}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              <div className="flex flex-wrap gap-2">
+                <button
+                  onClick={() => downloadQuestionPack(draft.pack)}
+                  disabled={problems.length > 0}
+                  className="flex items-center space-x-2 px-4 py-2 rounded-xl bg-blue-500 hover:bg-blue-600 disabled:opacity-50 text-white font-medium"
+                >
+                  <Download size={18} />
+                  <span>Export file</span>
+                </button>
+                <button
+                  onClick={install}
+                  disabled={problems.length > 0}
+                  className="flex items-center space-x-2 px-4 py-2 rounded-xl bg-green-500 hover:bg-green-600 disabled:opacity-50 text-white font-medium"
+                >
+                  <Check size={18} />
+                  <span>Use on this device</span>
+                </button>
+                {pendingDelete ? (
+                  <div className="flex items-center space-x-2 ml-auto">
+                    <span className="text-sm text-gray-600">Delete this pack?</span>
+                    <button
+                      onClick={() => {
+                        deleteDraft(draft.id);
+                        setSelectedDraftId(null);
+                        setPendingDelete(false);
+                      }}
+                      className="px-3 py-2 rounded-xl bg-red-500 hover:bg-red-600 text-white text-sm font-medium"
+                    >
+                      Delete
+                    </button>
+                    <button onClick={() => setPendingDelete(false)} className="px-3 py-2 rounded-xl bg-gray-100 hover:bg-gray-200 text-gray-700 text-sm font-medium">
+                      Keep
+                    </button>
+                  </div>
+                ) : (
+                  <button
+                    onClick={() => setPendingDelete(true)}
+                    className="ml-auto flex items-center space-x-2 px-4 py-2 rounded-xl text-gray-500 hover:text-red-600 hover:bg-red-50 font-medium"
+                  >
+                    <Trash2 size={18} />
+                    <span>Delete pack</span>
+                  </button>
+                )}
+              </div>
+            </>
+          )}
+        </main>
+
+        {/* The real question window, updated as the question is typed */}
+        <section className="space-y-2">
+          <h2 className="font-bold text-white">Preview</h2>
+          {question ? (
+            <QuestionModal
+              key={`${selectedDraftId}:${selectedQuestion}:${previewRun}`}
+              question={question}
+              isOpen
+              attempts={0}
+              onAnswer={() => undefined}
+              onClose={() => setPreviewRun(run => run + 1)}
+              preview
+            />
+          ) : (
+            <p className="text-indigo-100 text-sm">The selected question appears here as players will see it.</p>
+          )}
+        </section>
+      </div>
+    </div>
+  );
+};
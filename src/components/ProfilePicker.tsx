@@ -0,0 +1,168 @@
+import React, { useState } from 'react';
+import { Profile } from '../types/game';
+import { PROFILE_COLORS } from '../hooks/useProfiles';
+import { InstalledPack } from '../hooks/useQuestionPacks';
+import { PackIssue } from '../utils/questionPack';
+import { QuestionPacksPanel } from './QuestionPacksPanel';
+import { TreePine, UserPlus, Trash2 } from 'lucide-react';
+
+interface ProfilePickerProps {
+  profiles: Profile[];
+  onSelect: (profileId: string) => void;
+  onCreate: (name: string, color: string) => void;
+  onDelete: (profileId: string) => void;
+  packs: InstalledPack[];
+  onAddPack: (text: string) => PackIssue[];
+  onRemovePack: (packId: string) => void;
+  onOpenEditor: () => void;
+}
+
+const MAX_NAME_LENGTH = 20;
+
+export const ProfilePicker: React.FC<ProfilePickerProps> = ({
+  profiles,
+  onSelect,
+  onCreate,
+  onDelete,
+  packs,
+  onAddPack,
+  onRemovePack,
+  onOpenEditor
+}) => {
+  const [isCreating, setIsCreating] = useState(profiles.length === 0);
+  const [name, setName] = useState('');
+  const [color, setColor] = useState(PROFILE_COLORS[profiles.length % PROFILE_COLORS.length]);
+  const [pendingDelete, setPendingDelete] = useState<string | null>(null);
+
+  const handleCreate = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!name.trim()) return;
+    onCreate(name, color);
+  };
+
+  return (
+    <div className="w-full min-h-screen bg-gradient-to-b from-green-400 via-green-500 to-green-600 flex items-center justify-center p-4">
+      <div className="bg-white bg-opacity-95 rounded-3xl shadow-2xl p-8 w-full max-w-2xl">
+        <div className="flex items-center space-x-4 mb-8">
+          <div className="bg-green-100 p-2 rounded-xl">
+            <TreePine className="text-green-600" size={32} />
+          </div>
+          <div>
+            <h1 className="text-3xl font-bold text-gray-800">NCERT Math Adventure</h1>
+            <p className="text-gray-600">Who's playing?</p>
+          </div>
+        </div>
+
+        {profiles.length > 0 && (
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-4 mb-6">
+            {profiles.map(profile => (
+              <div key={profile.id} className="relative group">
+                <button
+                  onClick={() => onSelect(profile.id)}
+                  className="w-full flex flex-col items-center p-4 rounded-2xl bg-gray-50 hover:bg-gray-100 transition-all duration-200 transform hover:scale-105"
+                >
+                  <span
+                    className="w-16 h-16 rounded-2xl flex items-center justify-center text-white font-bold text-3xl shadow-lg mb-2"
+                    style={{ backgroundColor: profile.color }}
+                  >
+                    {profile.name.charAt(0).toUpperCase()}
+                  </span>
+                  <span className="font-bold text-gray-800 truncate max-w-full">{profile.name}</span>
+                </button>
+
+                {pendingDelete === profile.id ? (
+                  <div className="absolute inset-0 bg-white rounded-2xl flex flex-col items-center justify-center p-2 shadow-lg">
+                    <p className="text-sm text-gray-700 text-center mb-2">Delete {profile.name}'s progress?</p>
+                    <div className="flex space-x-2">
+                      <button
+                        onClick={() => onDelete(profile.id)}
+                        className="bg-red-500 hover:bg-red-600 text-white text-sm px-3 py-1 rounded-lg"
+                      >
+                        Delete
+                      </button>
+                      <button
+                        onClick={() => setPendingDelete(null)}
+                        className="bg-gray-100 hover:bg-gray-200 text-gray-700 text-sm px-3 py-1 rounded-lg"
+                      >
+                        Keep
+                      </button>
+                    </div>
+                  </div>
+                ) : (
+                  <button
+                    onClick={() => setPendingDelete(profile.id)}
+                    className="absolute top-2 right-2 p-1 rounded-lg text-gray-400 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-opacity"
+                    title={`Delete ${profile.name}`}
+                  >
+                    <Trash2 size={16} />
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {isCreating ? (
+          <form onSubmit={handleCreate} className="bg-gray-50 rounded-2xl p-6 space-y-4">
+            <input
+              type="text"
+              value={name}
+              onChange={event => setName(event.target.value)}
+              maxLength={MAX_NAME_LENGTH}
+              placeholder="Your name"
+              autoFocus
+              className="w-full px-4 py-3 rounded-xl border-2 border-gray-200 focus:border-green-500 outline-none text-lg"
+            />
+            <div className="flex space-x-2">
+              {PROFILE_COLORS.map(option => (
+                <button
+                  key={option}
+                  type="button"
+                  onClick={() => setColor(option)}
+                  className={`w-10 h-10 rounded-xl transition-transform duration-200 ${
+                    color === option ? 'ring-4 ring-offset-2 ring-gray-300 scale-110' : ''
+                  }`}
+                  style={{ backgroundColor: option }}
+                  title="Avatar colour"
+                />
+              ))}
+            </div>
+            <div className="flex space-x-3">
+              <button
+                type="submit"
+                disabled={!name.trim()}
+                className="flex-1 bg-gradient-to-r from-green-500 to-green-600 hover:from-green-600 hover:to-green-700 disabled:opacity-50 text-white px-6 py-3 rounded-xl font-bold transition-all duration-200"
+              >
+                Start Playing
+              </button>
+              {profiles.length > 0 && (
+                <button
+                  type="button"
+                  onClick={() => setIsCreating(false)}
+                  className="bg-gray-100 hover:bg-gray-200 text-gray-700 px-6 py-3 rounded-xl font-bold transition-all duration-200"
+                >
+                  Cancel
+                </button>
+              )}
+            </div>
+          </form>
+        ) : (
+          <button
+            onClick={() => setIsCreating(true)}
+            className="w-full flex items-center justify-center space-x-2 border-2 border-dashed border-gray-300 hover:border-green-500 text-gray-600 hover:text-green-600 py-4 rounded-2xl font-bold transition-all duration-200"
+          >
+            <UserPlus size={20} />
+            <span>New Player</span>
+          </button>
+        )}
+
+        <QuestionPacksPanel
+          packs={packs}
+          onAddPack={onAddPack}
+          onRemovePack={onRemovePack}
+          onOpenEditor={onOpenEditor}
+        />
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,254 @@
+import React, { useId } from 'react';
+import { BarGraphFigure, Figure, FigurePoint, FigureShape, NumberLineFigure, ShapesFigure } from '../types/game';
+
+interface QuestionFigureProps {
+  figure: Figure;
+}
+
+// Room around the drawing for labels and measurement lines
+const PADDING = 36;
+const MAX_WIDTH = 320;
+const MAX_HEIGHT = 200;
+const ANGLE_RADIUS = 22;
+const DIMENSION_OFFSET = 14;
+
+// A true minus sign, as in typeset math
+const formatNumber = (value: number) => `${parseFloat(value.toFixed(4))}`.replace('-', '−');
+
+const length = ([x, y]: FigurePoint) => Math.hypot(x, y) || 1;
+const unit = ([x, y]: FigurePoint): FigurePoint => [x / length([x, y]), y / length([x, y])];
+const along = ([x, y]: FigurePoint, [dx, dy]: FigurePoint, distance: number): FigurePoint =>
+  [x + dx * distance, y + dy * distance];
+// The left-hand side of travelling along a direction on screen
+const leftOf = ([dx, dy]: FigurePoint): FigurePoint => [dy, -dx];
+
+const FigureLabel: React.FC<{ at: FigurePoint; text: string }> = ({ at, text }) => (
+  <text x={at[0]} y={at[1]} textAnchor="middle" dominantBaseline="middle" className="fill-gray-800 text-sm font-semibold">
+    {text}
+  </text>
+);
+
+const renderShape = (shape: FigureShape, index: number, toScreen: (point: FigurePoint) => FigurePoint) => {
+  switch (shape.kind) {
+    case 'polygon':
+      return (
+        <polygon
+          key={index}
+          points={shape.points.map(point => toScreen(point).join(',')).join(' ')}
+          className={`stroke-gray-700 ${shape.shaded ? 'fill-blue-100' : 'fill-none'}`}
+          strokeWidth={2}
+          strokeLinejoin="round"
+        />
+      );
+    case 'circle': {
+      const [cx, cy] = toScreen(shape.center);
+      const radius = toScreen([shape.center[0] + shape.radius, shape.center[1]])[0] - cx;
+      return (
+        <circle key={index} cx={cx} cy={cy} r={radius} strokeWidth={2} className={`stroke-gray-700 ${shape.shaded ? 'fill-blue-100' : 'fill-none'}`} />
+      );
+    }
+    case 'segment': {
+      const from = toScreen(shape.from);
+      const to = toScreen(shape.to);
+      const direction = unit([to[0] - from[0], to[1] - from[1]]);
+      const middle: FigurePoint = [(from[0] + to[0]) / 2, (from[1] + to[1]) / 2];
+      return (
+        <g key={index}>
+          <line x1={from[0]} y1={from[1]} x2={to[0]} y2={to[1]} strokeWidth={2} strokeDasharray={shape.dashed ? '6 4' : undefined} className="stroke-gray-700" />
+          {shape.label && <FigureLabel at={along(middle, leftOf(direction), DIMENSION_OFFSET)} text={shape.label} />}
+        </g>
+      );
+    }
+    case 'angle': {
+      const vertex = toScreen(shape.vertex);
+      const first = toScreen(shape.from);
+      const second = toScreen(shape.to);
+      const u = unit([first[0] - vertex[0], first[1] - vertex[1]]);
+      const v = unit([second[0] - vertex[0], second[1] - vertex[1]]);
+      const bisector = unit([u[0] + v[0], u[1] + v[1]]);
+      const label = shape.label && <FigureLabel at={along(vertex, bisector, ANGLE_RADIUS + 14)} text={shape.label} />;
+      if (shape.right) {
+        const size = ANGLE_RADIUS / 2;
+        const corner = along(along(vertex, u, size), v, size);
+        const path = `M ${along(vertex, u, size).join(' ')} L ${corner.join(' ')} L ${along(vertex, v, size).join(' ')}`;
+        return (
+          <g key={index}>
+            <path d={path} strokeWidth={1.5} className="stroke-gray-700 fill-none" />
+            {label}
+          </g>
+        );
+      }
+      const start = along(vertex, u, ANGLE_RADIUS);
+      const end = along(vertex, v, ANGLE_RADIUS);
+      // Sweep the short way round from the first ray to the second
+      const sweep = u[0] * v[1] - u[1] * v[0] > 0 ? 1 : 0;
+      return (
+        <g key={index}>
+          <path d={`M ${start.join(' ')} A ${ANGLE_RADIUS} ${ANGLE_RADIUS} 0 0 ${sweep} ${end.join(' ')}`} strokeWidth={1.5} className="stroke-orange-500 fill-none" />
+          {label}
+        </g>
+      );
+    }
+    case 'dimension': {
+      const from = toScreen(shape.from);
+      const to = toScreen(shape.to);
+      const normal = leftOf(unit([to[0] - from[0], to[1] - from[1]]));
+      const start = along(from, normal, DIMENSION_OFFSET);
+      const end = along(to, normal, DIMENSION_OFFSET);
+      const tick = (point: FigurePoint) => `M ${along(point, normal, -4).join(' ')} L ${along(point, normal, 4).join(' ')}`;
+      return (
+        <g key={index}>
+          <path d={`M ${start.join(' ')} L ${end.join(' ')} ${tick(start)} ${tick(end)}`} strokeWidth={1.5} className="stroke-blue-500 fill-none" />
+          <FigureLabel
+            at={along([(start[0] + end[0]) / 2, (start[1] + end[1]) / 2], normal, 12)}
+            text={shape.label}
+          />
+        </g>
+      );
+    }
+    case 'label':
+      return <FigureLabel key={index} at={toScreen(shape.at)} text={shape.text} />;
+  }
+};
+
+const ShapesDrawing: React.FC<{ figure: ShapesFigure }> = ({ figure }) => {
+  const scale = Math.min(MAX_WIDTH / figure.width, MAX_HEIGHT / figure.height);
+  const toScreen = ([x, y]: FigurePoint): FigurePoint => [PADDING + x * scale, PADDING + y * scale];
+  const width = figure.width * scale + PADDING * 2;
+  const height = figure.height * scale + PADDING * 2;
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} width={width} height={height} className="max-w-full h-auto">
+      {figure.shapes.map((shape, index) => renderShape(shape, index, toScreen))}
+    </svg>
+  );
+};
+
+const NumberLineDrawing: React.FC<{ figure: NumberLineFigure }> = ({ figure }) => {
+  const arrowId = useId();
+  const step = figure.step ?? 1;
+  const tickCount = Math.round((figure.max - figure.min) / step);
+  // Label every tick on short lines and thin them out on long ones
+  const labelEvery = Math.ceil((tickCount + 1) / 12);
+  const width = MAX_WIDTH + PADDING * 2;
+  const lineY = 80;
+  const toX = (value: number) => PADDING + ((value - figure.min) / (figure.max - figure.min)) * MAX_WIDTH;
+
+  return (
+    <svg viewBox={`0 0 ${width} 120`} width={width} height={120} className="max-w-full h-auto">
+      <defs>
+        <marker id={arrowId} viewBox="0 0 10 10" refX="8" refY="5" markerWidth="8" markerHeight="8" orient="auto-start-reverse">
+          <path d="M 0 0 L 10 5 L 0 10 z" className="fill-current" />
+        </marker>
+      </defs>
+      <line
+        x1={PADDING - 20}
+        y1={lineY}
+        x2={width - PADDING + 20}
+        y2={lineY}
+        strokeWidth={2}
+        markerStart={`url(#${arrowId})`}
+        markerEnd={`url(#${arrowId})`}
+        className="stroke-gray-700 text-gray-700"
+      />
+      {Array.from({ length: tickCount + 1 }, (_, index) => {
+        const value = figure.min + index * step;
+        const x = toX(value);
+        return (
+          <g key={index}>
+            <line x1={x} y1={lineY - 6} x2={x} y2={lineY + 6} strokeWidth={1.5} className="stroke-gray-700" />
+            {index % labelEvery === 0 && (
+              <text x={x} y={lineY + 22} textAnchor="middle" className="fill-gray-600 text-xs">{formatNumber(value)}</text>
+            )}
+          </g>
+        );
+      })}
+      {figure.jumps?.map((jump, index) => {
+        const from = toX(jump.from);
+        const to = toX(jump.to);
+        const top = lineY - 20 - Math.min(40, Math.abs(to - from) / 3);
+        return (
+          <g key={`jump-${index}`} className="text-orange-500">
+            <path
+              d={`M ${from} ${lineY - 4} Q ${(from + to) / 2} ${top * 2 - lineY} ${to} ${lineY - 4}`}
+              strokeWidth={2}
+              markerEnd={`url(#${arrowId})`}
+              className="stroke-current fill-none"
+            />
+            {jump.label && (
+              <text x={(from + to) / 2} y={top - 6} textAnchor="middle" className="fill-orange-600 text-sm font-semibold">{jump.label}</text>
+            )}
+          </g>
+        );
+      })}
+      {figure.points?.map((point, index) => (
+        <g key={`point-${index}`}>
+          <circle cx={toX(point.value)} cy={lineY} r={5} className="fill-blue-600" />
+          {point.label && (
+            <text x={toX(point.value)} y={lineY + 40} textAnchor="middle" className="fill-blue-700 text-sm font-bold">{point.label}</text>
+          )}
+        </g>
+      ))}
+    </svg>
+  );
+};
+
+// 1, 2 or 5 times a power of ten, so there are at most six grid lines
+const niceStep = (largest: number) => {
+  const magnitude = 10 ** Math.floor(Math.log10(Math.max(largest, 1)));
+  return [1, 2, 5, 10].map(factor => factor * magnitude).find(step => largest / step <= 6) ?? magnitude * 10;
+};
+
+const BarGraphDrawing: React.FC<{ figure: BarGraphFigure }> = ({ figure }) => {
+  const largest = Math.max(...figure.bars.map(bar => bar.value), 0);
+  const step = figure.step ?? niceStep(largest);
+  const top = Math.max(step, Math.ceil(largest / step) * step);
+  const left = PADDING + 24;
+  const bottom = MAX_HEIGHT + 20;
+  const width = MAX_WIDTH + left;
+  const height = bottom + (figure.xLabel ? 52 : 32);
+  const slot = MAX_WIDTH / figure.bars.length;
+  const toY = (value: number) => bottom - (value / top) * (MAX_HEIGHT - 20);
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} width={width} height={height} className="max-w-full h-auto">
+      {Array.from({ length: Math.round(top / step) + 1 }, (_, index) => {
+        const y = toY(index * step);
+        return (
+          <g key={index}>
+            <line x1={left} y1={y} x2={width - 8} y2={y} strokeWidth={1} className="stroke-gray-200" />
+            <text x={left - 8} y={y} textAnchor="end" dominantBaseline="middle" className="fill-gray-600 text-xs">{formatNumber(index * step)}</text>
+          </g>
+        );
+      })}
+      {figure.bars.map((bar, index) => {
+        const x = left + slot * index + slot * 0.2;
+        const y = toY(bar.value);
+        return (
+          <g key={index}>
+            <rect x={x} y={y} width={slot * 0.6} height={bottom - y} rx={3} className="fill-blue-400" />
+            <text x={x + slot * 0.3} y={bottom + 16} textAnchor="middle" className="fill-gray-700 text-xs font-medium">{bar.label}</text>
+          </g>
+        );
+      })}
+      <path d={`M ${left} ${toY(top) - 8} L ${left} ${bottom} L ${width - 8} ${bottom}`} strokeWidth={2} className="stroke-gray-700 fill-none" />
+      {figure.yLabel && (
+        <text x={14} y={bottom / 2} textAnchor="middle" transform={`rotate(-90 14 ${bottom / 2})`} className="fill-gray-700 text-xs font-semibold">
+          {figure.yLabel}
+        </text>
+      )}
+      {figure.xLabel && (
+        <text x={left + MAX_WIDTH / 2} y={bottom + 40} textAnchor="middle" className="fill-gray-700 text-xs font-semibold">{figure.xLabel}</text>
+      )}
+    </svg>
+  );
+};
+
+// Geometry diagrams, number lines and bar graphs drawn from a question's figure description
+export const QuestionFigure: React.FC<QuestionFigureProps> = ({ figure }) => (
+  <figure role="img" aria-label={figure.alt} className="flex justify-center p-4 bg-gray-50 rounded-2xl border border-gray-200">
+    {figure.kind === 'shapes' && <ShapesDrawing figure={figure} />}
+    {figure.kind === 'number-line' && <NumberLineDrawing figure={figure} />}
+    {figure.kind === 'bar-graph' && <BarGraphDrawing figure={figure} />}
+  </figure>
+);
@@ -0,0 +1,258 @@
+import React from 'react';
+import { Question } from '../types/game';
+import { changeQuestionType } from '../utils/questionAuthoring';
+import { ChoiceListEditor } from './ChoiceListEditor';
+import { Plus, X } from 'lucide-react';
+
+interface QuestionFormProps {
+  question: Question;
+  onChange: (question: Question) => void;
+}
+
+const TYPE_LABELS: Record<Question['type'], string> = {
+  'multiple-choice': 'Multiple choice',
+  'multi-select': 'Pick all that apply',
+  numeric: 'Typed number',
+  ordering: 'Put in order',
+  matching: 'Match pairs'
+};
+
+const SUBJECTS: Question['subject'][] = ['Math', 'Science', 'History', 'Geography', 'Literature'];
+const DIFFICULTIES: Question['difficulty'][] = ['easy', 'medium', 'hard'];
+
+// Left out of the question when no option has any
+const optionFeedback = (feedback: string[]) => (feedback.some(entry => entry.trim()) ? feedback : undefined);
+
+const inputClass = 'w-full px-3 py-2 rounded-lg border border-gray-200 focus:border-blue-500 outline-none';
+const labelClass = 'block text-sm font-semibold text-gray-600 mb-1';
+
+// Every field of one question, laid out for the kind of question it is
+export const QuestionForm: React.FC<QuestionFormProps> = ({ question, onChange }) => {
+  const update = (changes: Partial<Question>) => onChange({ ...question, ...changes } as Question);
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-3">
+        <label>
+          <span className={labelClass}>ID</span>
+          <input type="text" value={question.id} onChange={event => update({ id: event.target.value.trim() })} className={`${inputClass} font-mono text-sm`} />
+        </label>
+        <label>
+          <span className={labelClass}>Format</span>
+          <select
+            value={question.type}
+            onChange={event => onChange(changeQuestionType(question, event.target.value as Question['type']))}
+            className={inputClass}
+          >
+            {Object.entries(TYPE_LABELS).map(([type, label]) => (
+              <option key={type} value={type}>{label}</option>
+            ))}
+          </select>
+        </label>
+        <label>
+          <span className={labelClass}>Subject</span>
+          <select value={question.subject} onChange={event => update({ subject: event.target.value as Question['subject'] })} className={inputClass}>
+            {SUBJECTS.map(subject => (
+              <option key={subject} value={subject}>{subject}</option>
+            ))}
+          </select>
+        </label>
+        <div>
+          <span className={labelClass}>Difficulty</span>
+          <div className="flex space-x-1">
+            {DIFFICULTIES.map(difficulty => (
+              <button
+                key={difficulty}
+                onClick={() => update({ difficulty })}
+                className={`flex-1 py-2 rounded-lg text-sm font-medium capitalize ${
+                  question.difficulty === difficulty ? 'bg-blue-500 text-white' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                }`}
+              >
+                {difficulty}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <label>
+          <span className={labelClass}>Topic</span>
+          <input type="text" value={question.topic} onChange={event => update({ topic: event.target.value })} placeholder="e.g. Adding integers" className={inputClass} />
+        </label>
+        <label>
+          <span className={labelClass}>Learning outcome</span>
+          <input
+            type="text"
+            value={question.learningOutcome ?? ''}
+            onChange={event => update({ learningOutcome: event.target.value.trim() || undefined })}
+            placeholder="e.g. M7.1.1"
+            className={`${inputClass} font-mono text-sm`}
+          />
+        </label>
+      </div>
+
+      <label className="block">
+        <span className={labelClass}>Question</span>
+        <textarea
+          value={question.question}
+          onChange={event => update({ question: event.target.value })}
+          rows={3}
+          placeholder="What is $\frac{3}{4} + \frac{1}{8}$?"
+          className={inputClass}
+        />
+        <span className="text-xs text-gray-400">{'Put maths between dollar signs, e.g. $\\frac{3}{4}$ or $x^{2}$.'}</span>
+      </label>
+
+      {question.type === 'multiple-choice' && (
+        <div>
+          <span className={labelClass}>Options · mark the correct one, and say what each wrong one gets wrong</span>
+          <ChoiceListEditor
+            items={question.options}
+            correct={[question.correctAnswer]}
+            picker="single"
+            feedback={question.optionFeedback ?? []}
+            onChange={(options, correct, feedback) => update({ options, correctAnswer: correct[0] ?? 0, optionFeedback: optionFeedback(feedback) })}
+          />
+        </div>
+      )}
+
+      {question.type === 'multi-select' && (
+        <div>
+          <span className={labelClass}>Options · mark every correct one, and say what each wrong one gets wrong</span>
+          <ChoiceListEditor
+            items={question.options}
+            correct={question.correctAnswers}
+            picker="multiple"
+            feedback={question.optionFeedback ?? []}
+            onChange={(options, correctAnswers, feedback) => update({ options, correctAnswers, optionFeedback: optionFeedback(feedback) })}
+          />
+        </div>
+      )}
+
+      {question.type === 'ordering' && (
+        <div>
+          <span className={labelClass}>Items in the correct order · players see them shuffled</span>
+          <ChoiceListEditor items={question.items} correct={[]} picker="none" onChange={items => update({ items })} />
+        </div>
+      )}
+
+      {question.type === 'numeric' && (
+        <div className="grid grid-cols-3 gap-3">
+          <label>
+            <span className={labelClass}>Answer</span>
+            <input type="text" value={question.answer} onChange={event => update({ answer: event.target.value })} placeholder="17, 0.6 or 3/4" className={inputClass} />
+          </label>
+          <label>
+            <span className={labelClass}>Tolerance</span>
+            <input
+              type="number"
+              min={0}
+              step="any"
+              value={question.tolerance ?? ''}
+              onChange={event => update({ tolerance: event.target.value === '' ? undefined : parseFloat(event.target.value) })}
+              placeholder="Exact"
+              className={inputClass}
+            />
+          </label>
+          <label>
+            <span className={labelClass}>Unit</span>
+            <input type="text" value={question.unit ?? ''} onChange={event => update({ unit: event.target.value || undefined })} placeholder="cm" className={inputClass} />
+          </label>
+          <label className="col-span-3 flex items-center space-x-2 text-sm text-gray-600">
+            <input
+              type="checkbox"
+              checked={question.acceptUnreduced !== false}
+              onChange={event => update({ acceptUnreduced: event.target.checked ? undefined : false })}
+              className="w-4 h-4"
+            />
+            <span>Accept fractions that are not in simplest form</span>
+          </label>
+        </div>
+      )}
+
+      {question.type === 'matching' && (
+        <div className="space-y-2">
+          <span className={labelClass}>Pairs · players see the right column shuffled</span>
+          {question.pairs.map((pair, index) => (
+            <div key={index} className="flex items-center space-x-2">
+              <input
+                type="text"
+                value={pair.left}
+                onChange={event => update({ pairs: question.pairs.map((existing, position) => (position === index ? { ...existing, left: event.target.value } : existing)) })}
+                placeholder="Left"
+                className={inputClass}
+              />
+              <span className="text-gray-400">→</span>
+              <input
+                type="text"
+                value={pair.right}
+                onChange={event => update({ pairs: question.pairs.map((existing, position) => (position === index ? { ...existing, right: event.target.value } : existing)) })}
+                placeholder="Right"
+                className={inputClass}
+              />
+              <button
+                onClick={() => update({ pairs: question.pairs.filter((_, position) => position !== index) })}
+                disabled={question.pairs.length <= 2}
+                className="p-1 rounded-lg text-gray-400 hover:text-red-500 disabled:opacity-30"
+                title="Remove pair"
+              >
+                <X size={18} />
+              </button>
+            </div>
+          ))}
+          <button
+            onClick={() => update({ pairs: [...question.pairs, { left: '', right: '' }] })}
+            className="flex items-center space-x-1 text-sm font-medium text-blue-600 hover:text-blue-700"
+          >
+            <Plus size={16} />
+            <span>Add pair</span>
+          </button>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <span className={labelClass}>Hints · players buy them in this order, so start with a nudge</span>
+        {(question.hints ?? []).map((hint, index, hints) => (
+          <div key={index} className="flex items-center space-x-2">
+            <span className="text-sm text-gray-400 w-5">{index + 1}.</span>
+            <input
+              type="text"
+              value={hint}
+              onChange={event => update({ hints: hints.map((existing, position) => (position === index ? event.target.value : existing)) })}
+              className={inputClass}
+            />
+            <button
+              onClick={() => update({ hints: hints.length > 1 ? hints.filter((_, position) => position !== index) : undefined })}
+              className="p-1 rounded-lg text-gray-400 hover:text-red-500"
+              title="Remove hint"
+            >
+              <X size={18} />
+            </button>
+          </div>
+        ))}
+        <button
+          onClick={() => update({ hints: [...(question.hints ?? []), ''] })}
+          className="flex items-center space-x-1 text-sm font-medium text-blue-600 hover:text-blue-700"
+        >
+          <Plus size={16} />
+          <span>Add hint</span>
+        </button>
+      </div>
+
+      <label className="block">
+        <span className={labelClass}>Explanation · one step per line for a worked solution</span>
+        <textarea
+          value={typeof question.explanation === 'string' ? question.explanation : question.explanation.join('\n')}
+          onChange={event => {
+            const steps = event.target.value.split('\n');
+            update({ explanation: steps.length > 1 ? steps : steps[0] });
+          }}
+          rows={4}
+          placeholder="Shown after the player answers, whether they were right or not."
+          className={inputClass}
+        />
+      </label>
+    </div>
+  );
+};
@@ -1,46 +1,153 @@
 import React, { useState, useEffect } from 'react';
-import { Question } from '../types/game';
-import { X, Award, AlertCircle, Star, Trophy, Target } from 'lucide-react';
+import { Question, QuestionResponse } from '../types/game';
+import { formatCorrectAnswer, gradeResponse, parseNumber } from '../utils/grading';
+import { shuffle } from '../utils/random';
+import { getHintCost } from '../utils/hunt';
+import { OrderingInput } from './OrderingInput';
+import { MatchingInput } from './MatchingInput';
+import { MathText } from './MathText';
+import { QuestionFigure } from './QuestionFigure';
+import { X, Award, AlertCircle, Star, Trophy, Target, Check, Lightbulb, ChevronLeft, ChevronRight } from 'lucide-react';
 import { gsap } from 'gsap';
 
 interface QuestionModalProps {
   question: Question | null;
   isOpen: boolean;
   attempts: number;
-  onAnswer: (answerIndex: number) => void;
+  // Hints bought so far and the coins there are to buy more with
+  hintsRevealed?: number;
+  coins?: number;
+  onRevealHint?: () => void;
+  // answeredAt is when the student submitted, as the call itself waits for the result animation
+  onAnswer: (response: QuestionResponse, answeredAt: number) => void;
   onClose: () => void;
+  // Shown in place in the question editor, without the backdrop, opening animation or
+  // confetti, and with free hints
+  preview?: boolean;
 }
 
+const indexes = (count: number) => Array.from({ length: count }, (_, index) => index);
+
+// Shuffled indexes that never start out already in the answer's order
+const scrambled = (count: number) => {
+  if (count < 2) return indexes(count);
+  let order: number[];
+  do {
+    order = shuffle(indexes(count), Math.random);
+  } while (order.every((item, position) => item === position));
+  return order;
+};
+
 export const QuestionModal: React.FC<QuestionModalProps> = ({
   question,
   isOpen,
   attempts,
+  hintsRevealed = 0,
+  coins = 0,
+  onRevealHint,
   onAnswer,
-  onClose
+  onClose,
+  preview = false
 }) => {
   const [selectedAnswer, setSelectedAnswer] = useState<number | null>(null);
+  const [typedAnswer, setTypedAnswer] = useState('');
   const [showExplanation, setShowExplanation] = useState(false);
   const [isCorrect, setIsCorrect] = useState<boolean | null>(null);
+  const [feedback, setFeedback] = useState<string | null>(null);
+  const [misconceptions, setMisconceptions] = useState<{ option: number; feedback: string }[]>([]);
+  const [inputError, setInputError] = useState(false);
+  const [selectedOptions, setSelectedOptions] = useState<number[]>([]);
+  const [order, setOrder] = useState<number[]>([]);
+  const [rightOrder, setRightOrder] = useState<number[]>([]);
+  const [matches, setMatches] = useState<number[]>([]);
+  const [previewHints, setPreviewHints] = useState(0);
+  // Step of the worked solution reached, and whether the question is done and waiting to be closed
+  const [step, setStep] = useState(0);
+  const [isFinished, setIsFinished] = useState(false);
+
+  const resetAnswer = () => {
+    setSelectedAnswer(null);
+    setTypedAnswer('');
+    setShowExplanation(false);
+    setIsCorrect(null);
+    setFeedback(null);
+    setMisconceptions([]);
+    setInputError(false);
+    setStep(0);
+    setIsFinished(false);
+  };
+
+  // Multi-step answers are set up once per question and kept between attempts,
+  // so the feedback on how close they were can be acted on
+  const arrangeQuestion = (current: Question) => {
+    setSelectedOptions([]);
+    setOrder(current.type === 'ordering' ? scrambled(current.items.length) : []);
+    setRightOrder(current.type === 'matching' ? scrambled(current.pairs.length) : []);
+    setMatches(current.type === 'matching' ? current.pairs.map(() => -1) : []);
+  };
 
   useEffect(() => {
     if (isOpen && question) {
-      setSelectedAnswer(null);
-      setShowExplanation(false);
-      setIsCorrect(null);
+      resetAnswer();
+      arrangeQuestion(question);
+      setPreviewHints(0);
       
       // Enhanced modal animation
-      gsap.fromTo('.question-modal', 
-        { scale: 0, opacity: 0, rotationY: 180 },
-        { scale: 1, opacity: 1, rotationY: 0, duration: 0.5, ease: 'back.out(1.7)' }
+      if (!preview) {
+        gsap.fromTo('.question-modal', 
+          { scale: 0, opacity: 0, rotationY: 180 },
+          { scale: 1, opacity: 1, rotationY: 0, duration: 0.5, ease: 'back.out(1.7)' }
+        );
+      }
+    }
+  }, [isOpen, question, preview]);
+
+  // Each step of the worked solution slides in as it is reached
+  useEffect(() => {
+    if (showExplanation) {
+      gsap.fromTo(`.worked-step-${step}`,
+        { opacity: 0, x: -30 },
+        { opacity: 1, x: 0, duration: 0.5, ease: 'power2.out' }
       );
     }
-  }, [isOpen, question]);
+  }, [showExplanation, step]);
+
+  const getResponse = (): QuestionResponse | null => {
+    switch (question?.type) {
+      case 'numeric':
+        return typedAnswer.trim() ? { type: 'numeric', value: typedAnswer } : null;
+      case 'multi-select':
+        return selectedOptions.length > 0 ? { type: 'multi-select', selected: selectedOptions } : null;
+      case 'ordering':
+        return order.length > 0 ? { type: 'ordering', order } : null;
+      case 'matching':
+        return matches.length > 0 && !matches.includes(-1) ? { type: 'matching', matches } : null;
+      default:
+        return selectedAnswer !== null ? { type: 'multiple-choice', selected: selectedAnswer } : null;
+    }
+  };
+
+  const toggleOption = (index: number) => {
+    setSelectedOptions(prev =>
+      prev.includes(index) ? prev.filter(option => option !== index) : [...prev, index]
+    );
+  };
 
   const handleSubmitAnswer = () => {
-    if (selectedAnswer === null) return;
+    const response = getResponse();
+    if (!question || !response) return;
+    // Something that isn't a number shouldn't cost an attempt
+    if (response.type === 'numeric' && !parseNumber(response.value)) {
+      setInputError(true);
+      return;
+    }
     
-    const correct = selectedAnswer === question?.correctAnswer;
+    const answeredAt = Date.now();
+    const result = gradeResponse(question, response);
+    const correct = result.isCorrect;
     setIsCorrect(correct);
+    setFeedback(result.feedback ?? null);
+    setMisconceptions(result.misconceptions ?? []);
     setShowExplanation(true);
     
     // Enhanced result animation
@@ -50,18 +157,19 @@ export const QuestionModal: React.FC<QuestionModalProps> = ({
     );
     
     // Confetti effect for correct answers
-    if (correct) {
+    if (correct && !preview) {
       createConfetti();
     }
     
+    const isWorkedSolution = Array.isArray(question.explanation) && question.explanation.length > 1;
     setTimeout(() => {
-      onAnswer(selectedAnswer);
+      onAnswer(response, answeredAt);
       if (correct || attempts >= 2) {
-        setTimeout(onClose, 2500);
+        // A worked solution stays up until the student has stepped through it
+        if (isWorkedSolution) setIsFinished(true);
+        else setTimeout(onClose, 2500);
       } else {
-        setShowExplanation(false);
-        setIsCorrect(null);
-        setSelectedAnswer(null);
+        resetAnswer();
       }
     }, 2500);
   };
@@ -112,10 +220,17 @@ export const QuestionModal: React.FC<QuestionModalProps> = ({
   };
 
   const difficultyStyle = difficultyColors[question.difficulty];
+  const canSubmit = getResponse() !== null;
+  const options = question.type === 'multiple-choice' || question.type === 'multi-select' ? question.options : [];
+  const hints = question.hints ?? [];
+  const steps = typeof question.explanation === 'string' ? [question.explanation] : question.explanation;
+  const revealed = preview ? previewHints : hintsRevealed;
+  const hintCost = getHintCost(revealed);
+  const canAffordHint = preview || coins >= hintCost;
 
   return (
-    <div className="fixed inset-0 bg-black bg-opacity-60 flex items-center justify-center z-50 p-4">
-      <div className="question-modal bg-white rounded-3xl shadow-2xl max-w-3xl w-full max-h-[95vh] overflow-y-auto">
+    <div className={preview ? '' : 'fixed inset-0 bg-black bg-opacity-60 flex items-center justify-center z-50 p-4'}>
+      <div className={`question-modal bg-white rounded-3xl shadow-2xl max-w-3xl w-full ${preview ? '' : 'max-h-[95vh] overflow-y-auto'}`}>
         {/* Enhanced Header */}
         <div className={`bg-gradient-to-r ${difficultyStyle.bg} p-6 rounded-t-3xl relative overflow-hidden`}>
           {/* Background Pattern */}
@@ -169,14 +284,71 @@ export const QuestionModal: React.FC<QuestionModalProps> = ({
                 <Target className="text-gray-600" size={20} />
               </div>
               <h3 className="text-2xl font-bold text-gray-800 leading-relaxed flex-1">
-                {question.question}
+                <MathText text={question.question} />
               </h3>
             </div>
+            {question.figure && <QuestionFigure figure={question.figure} />}
           </div>
 
+          {/* Hints, bought one at a time */}
+          {hints.length > 0 && (
+            <div className="mb-8 space-y-3">
+              {hints.slice(0, revealed).map((hint, index) => (
+                <div key={index} className="flex items-start space-x-3 bg-amber-50 border border-amber-200 p-4 rounded-2xl">
+                  <Lightbulb className="text-amber-500 flex-shrink-0 mt-1" size={20} />
+                  <p className="text-amber-900 text-lg">
+                    <span className="font-bold">Hint {index + 1}: </span>
+                    <MathText text={hint} />
+                  </p>
+                </div>
+              ))}
+              {!showExplanation && revealed < hints.length && (
+                <div className="flex items-center space-x-4">
+                  <button
+                    onClick={preview ? () => setPreviewHints(count => count + 1) : onRevealHint}
+                    disabled={!canAffordHint}
+                    className="flex items-center space-x-2 px-4 py-2 rounded-xl font-bold bg-amber-100 hover:bg-amber-200 text-amber-800 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200"
+                  >
+                    <Lightbulb size={18} />
+                    <span>{revealed === 0 ? 'Get a hint' : 'Get another hint'} · {hintCost} coins</span>
+                  </button>
+                  <span className="text-sm text-gray-500">
+                    {canAffordHint ? 'Each hint lowers the reward for this question.' : `You need ${hintCost} coins for this hint.`}
+                  </span>
+                </div>
+              )}
+            </div>
+          )}
+
           {!showExplanation && (
             <div className="space-y-4">
-              {question.options.map((option, index) => (
+              {question.type === 'numeric' && (
+                <div className="flex items-center space-x-3">
+                  <input
+                    type="text"
+                    inputMode="decimal"
+                    value={typedAnswer}
+                    onChange={(event) => {
+                      setTypedAnswer(event.target.value);
+                      setInputError(false);
+                    }}
+                    onKeyDown={(event) => {
+                      if (event.key === 'Enter') handleSubmitAnswer();
+                    }}
+                    placeholder="Type your answer, e.g. 17, 0.6 or 3/4"
+                    autoFocus
+                    className="flex-1 p-5 text-2xl font-medium text-gray-800 rounded-2xl border-2 border-gray-200 focus:border-blue-500 focus:outline-none transition-all duration-300"
+                  />
+                  {question.unit && (
+                    <span className="text-2xl font-bold text-gray-600">{question.unit}</span>
+                  )}
+                </div>
+              )}
+              {inputError && (
+                <p className="text-sm text-red-600">That doesn't look like a number. Try something like 17, 0.6 or 3/4.</p>
+              )}
+
+              {question.type === 'multiple-choice' && question.options.map((option, index) => (
                 <button
                   key={index}
                   onClick={() => setSelectedAnswer(index)}
@@ -194,16 +366,60 @@ export const QuestionModal: React.FC<QuestionModalProps> = ({
                     }`}>
                       {String.fromCharCode(65 + index)}
                     </div>
-                    <span className="text-lg text-gray-800 font-medium">{option}</span>
+                    <MathText text={option} className="text-lg text-gray-800 font-medium" />
                   </div>
                 </button>
               ))}
               
+              {question.type === 'multi-select' && (
+                <>
+                  <p className="text-sm text-gray-500">Select all that apply.</p>
+                  {question.options.map((option, index) => {
+                    const isSelected = selectedOptions.includes(index);
+                    return (
+                      <button
+                        key={index}
+                        onClick={() => toggleOption(index)}
+                        className={`w-full p-5 text-left rounded-2xl border-2 transition-all duration-300 transform hover:scale-[1.02] ${
+                          isSelected
+                            ? 'border-blue-500 bg-blue-50 shadow-lg'
+                            : 'border-gray-200 hover:border-blue-300 hover:shadow-md'
+                        }`}
+                      >
+                        <div className="flex items-center space-x-4">
+                          <div className={`w-8 h-8 rounded-lg border-2 flex items-center justify-center ${
+                            isSelected
+                              ? 'border-blue-500 bg-blue-500 text-white'
+                              : 'border-gray-300'
+                          }`}>
+                            {isSelected && <Check size={18} />}
+                          </div>
+                          <MathText text={option} className="text-lg text-gray-800 font-medium" />
+                        </div>
+                      </button>
+                    );
+                  })}
+                </>
+              )}
+
+              {question.type === 'ordering' && (
+                <OrderingInput items={question.items} order={order} onChange={setOrder} />
+              )}
+
+              {question.type === 'matching' && (
+                <MatchingInput
+                  pairs={question.pairs}
+                  rightOrder={rightOrder}
+                  matches={matches}
+                  onChange={setMatches}
+                />
+              )}
+
               <button
                 onClick={handleSubmitAnswer}
-                disabled={selectedAnswer === null}
+                disabled={!canSubmit}
                 className={`w-full mt-8 py-4 rounded-2xl font-bold text-lg transition-all duration-300 transform ${
-                  selectedAnswer !== null
+                  canSubmit
                     ? 'bg-gradient-to-r from-blue-500 to-blue-600 hover:from-blue-600 hover:to-blue-700 text-white shadow-lg hover:shadow-xl hover:scale-[1.02]'
                     : 'bg-gray-300 text-gray-500 cursor-not-allowed'
                 }`}
@@ -225,7 +441,7 @@ export const QuestionModal: React.FC<QuestionModalProps> = ({
                     <p className="text-green-700 text-lg">
                       You earned coins and XP! 🎉
                     </p>
-                    {attempts === 0 && (
+                    {attempts === 0 && revealed === 0 && (
                       <div className="mt-3 inline-flex items-center space-x-2 bg-yellow-100 px-4 py-2 rounded-full">
                         <Star className="text-yellow-600" size={16} />
                         <span className="text-yellow-800 font-medium text-sm">First Try Bonus!</span>
@@ -246,33 +462,99 @@ export const QuestionModal: React.FC<QuestionModalProps> = ({
                         : 'Every mistake is a learning opportunity!'
                       }
                     </p>
+                    {feedback && (
+                      <p className="mt-3 inline-block bg-red-50 px-4 py-2 rounded-full text-red-800 font-medium text-sm">
+                        {feedback}
+                      </p>
+                    )}
                   </div>
                 )}
               </div>
 
+              {/* What the option picked gets wrong */}
+              {!isCorrect && misconceptions.length > 0 && (
+                <div className="bg-gradient-to-r from-orange-50 to-amber-50 border-l-4 border-orange-400 p-6 rounded-r-2xl space-y-2">
+                  <h4 className="font-bold text-orange-800 flex items-center">
+                    <Target className="mr-2" size={20} />
+                    About your answer:
+                  </h4>
+                  {misconceptions.map(misconception => (
+                    <p key={misconception.option} className="text-orange-700 leading-relaxed text-lg">
+                      <MathText text={options[misconception.option]} className="font-bold" />
+                      {' · '}
+                      <MathText text={misconception.feedback} />
+                    </p>
+                  ))}
+                </div>
+              )}
+
               {/* Enhanced Explanation */}
               <div className="bg-gradient-to-r from-blue-50 to-indigo-50 border-l-4 border-blue-400 p-6 rounded-r-2xl">
                 <h4 className="font-bold text-blue-800 mb-3 flex items-center">
                   <Star className="mr-2" size={20} />
-                  Explanation:
+                  {steps.length > 1 ? `Worked solution · step ${step + 1} of ${steps.length}` : 'Explanation:'}
                 </h4>
-                <p className="text-blue-700 leading-relaxed text-lg">{question.explanation}</p>
+                {steps.length > 1 ? (
+                  <>
+                    <ol className="space-y-3">
+                      {steps.slice(0, step + 1).map((text, index) => (
+                        <li key={index} className={`worked-step-${index} flex items-start space-x-3`}>
+                          <span className="w-7 h-7 rounded-full bg-blue-500 text-white flex-shrink-0 flex items-center justify-center font-bold text-sm">
+                            {index + 1}
+                          </span>
+                          <MathText text={text} className="text-blue-700 leading-relaxed text-lg" />
+                        </li>
+                      ))}
+                    </ol>
+                    <div className="flex justify-between mt-4">
+                      <button
+                        onClick={() => setStep(step - 1)}
+                        disabled={step === 0}
+                        className="flex items-center space-x-1 px-4 py-2 rounded-xl font-bold text-blue-700 hover:bg-blue-100 disabled:opacity-40 disabled:hover:bg-transparent transition-all duration-200"
+                      >
+                        <ChevronLeft size={18} />
+                        <span>Back</span>
+                      </button>
+                      <button
+                        onClick={() => setStep(step + 1)}
+                        disabled={step === steps.length - 1}
+                        className="flex items-center space-x-1 px-4 py-2 rounded-xl font-bold bg-blue-500 hover:bg-blue-600 text-white disabled:opacity-40 disabled:hover:bg-blue-500 transition-all duration-200"
+                      >
+                        <span>Next step</span>
+                        <ChevronRight size={18} />
+                      </button>
+                    </div>
+                  </>
+                ) : (
+                  <p className="text-blue-700 leading-relaxed text-lg"><MathText text={steps[0]} /></p>
+                )}
               </div>
 
               {/* Correct Answer Highlight */}
               <div className="bg-green-50 border border-green-200 p-4 rounded-2xl">
                 <h4 className="font-semibold text-green-800 mb-2">Correct Answer:</h4>
                 <div className="flex items-center space-x-3">
-                  <div className="w-6 h-6 rounded-full bg-green-500 text-white flex items-center justify-center font-bold text-sm">
-                    {String.fromCharCode(65 + question.correctAnswer)}
-                  </div>
-                  <span className="text-green-700 font-medium">
-                    {question.options[question.correctAnswer]}
-                  </span>
+                  {question.type === 'multiple-choice' && (
+                    <div className="w-6 h-6 rounded-full bg-green-500 text-white flex items-center justify-center font-bold text-sm">
+                      {String.fromCharCode(65 + question.correctAnswer)}
+                    </div>
+                  )}
+                  <MathText text={formatCorrectAnswer(question)} className="text-green-700 font-medium" />
                 </div>
               </div>
 
-              {(isCorrect || attemptsLeft === 0) && (
+              {isFinished && (
+                <div className="text-center">
+                  <button
+                    onClick={onClose}
+                    className="bg-gradient-to-r from-green-500 to-green-600 hover:from-green-600 hover:to-green-700 text-white px-8 py-3 rounded-xl font-bold text-lg transition-all duration-200"
+                  >
+                    Continue
+                  </button>
+                </div>
+              )}
+
+              {(isCorrect || attemptsLeft === 0) && steps.length === 1 && (
                 <div className="text-center">
                   <p className="text-gray-600 mb-3">Moving to next treasure...</p>
                   <div className="w-full bg-gray-200 rounded-full h-3">
@@ -0,0 +1,107 @@
+import React, { useRef, useState } from 'react';
+import { InstalledPack } from '../hooks/useQuestionPacks';
+import { PackIssue } from '../utils/questionPack';
+import { BookOpen, ChevronDown, ChevronUp, Upload, Trash2, AlertTriangle, PenLine } from 'lucide-react';
+
+interface QuestionPacksPanelProps {
+  packs: InstalledPack[];
+  onAddPack: (text: string) => PackIssue[];
+  onRemovePack: (packId: string) => void;
+  onOpenEditor: () => void;
+}
+
+// Where teachers add their own question packs and see what is wrong with one that won't load
+export const QuestionPacksPanel: React.FC<QuestionPacksPanelProps> = ({ packs, onAddPack, onRemovePack, onOpenEditor }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [rejected, setRejected] = useState<{ fileName: string; errors: PackIssue[] } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Let the same file be picked again once it has been fixed
+    event.target.value = '';
+    if (!file) return;
+
+    const errors = onAddPack(await file.text());
+    setRejected(errors.length > 0 ? { fileName: file.name, errors } : null);
+  };
+
+  return (
+    <div className="mt-6 border-t border-gray-200 pt-4">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-between text-gray-600 hover:text-gray-800 font-medium"
+      >
+        <span className="flex items-center space-x-2">
+          <BookOpen size={18} />
+          <span>Question packs{packs.length > 0 && ` (${packs.length})`}</span>
+        </span>
+        {isOpen ? <ChevronUp size={18} /> : <ChevronDown size={18} />}
+      </button>
+
+      {isOpen && (
+        <div className="mt-4 space-y-3">
+          {packs.length === 0 && (
+            <p className="text-sm text-gray-500">No packs yet. Packs add teachers' own questions to every hunt on this device.</p>
+          )}
+
+          {packs.map(({ id, pack }) => (
+            <div key={id} className="flex items-center justify-between bg-gray-50 rounded-xl p-3">
+              <div className="min-w-0">
+                <p className="font-bold text-gray-800 truncate">{pack.metadata.title}</p>
+                <p className="text-sm text-gray-500 truncate">
+                  Class {pack.metadata.class} · {pack.metadata.chapter} · {pack.questions.length} question{pack.questions.length !== 1 ? 's' : ''} · by {pack.metadata.author} ({pack.metadata.language})
+                </p>
+              </div>
+              <button
+                onClick={() => onRemovePack(id)}
+                className="p-2 rounded-lg text-gray-400 hover:text-red-500 flex-shrink-0"
+                title={`Remove ${pack.metadata.title}`}
+              >
+                <Trash2 size={16} />
+              </button>
+            </div>
+          ))}
+
+          <div className="flex space-x-2">
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="flex-1 flex items-center justify-center space-x-2 py-2 rounded-xl bg-gray-100 hover:bg-gray-200 text-gray-700 font-medium"
+            >
+              <Upload size={18} />
+              <span>Add question pack</span>
+            </button>
+            <button
+              onClick={onOpenEditor}
+              className="flex-1 flex items-center justify-center space-x-2 py-2 rounded-xl bg-gray-100 hover:bg-gray-200 text-gray-700 font-medium"
+            >
+              <PenLine size={18} />
+              <span>Write questions</span>
+            </button>
+          </div>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            onChange={handleFile}
+            className="hidden"
+          />
+
+          {rejected && (
+            <div className="bg-red-50 text-red-700 text-sm rounded-xl p-3">
+              <p className="flex items-center space-x-2 font-bold mb-2">
+                <AlertTriangle size={16} className="flex-shrink-0" />
+                <span>{rejected.fileName} was not added:</span>
+              </p>
+              <ul className="space-y-1 max-h-48 overflow-y-auto font-mono text-xs">
+                {rejected.errors.map((error, index) => (
+                  <li key={index}>Line {error.line}: {error.message}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
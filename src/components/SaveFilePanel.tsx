@@ -0,0 +1,133 @@
+import React, { useRef, useState } from 'react';
+import { GameState, Profile } from '../types/game';
+import { downloadSaveExport, LearningRecords, parseSaveExport, SaveImportResult } from '../utils/saveExport';
+import { Download, HardDrive, Upload, AlertTriangle } from 'lucide-react';
+
+interface SaveFilePanelProps {
+  gameState: GameState;
+  profile: Profile;
+  onImport: (state: GameState, learning: LearningRecords | null) => void;
+}
+
+type PendingImport = Extract<SaveImportResult, { ok: true }>;
+
+// Backup and restore of the current student's game as a JSON file
+export const SaveFilePanel: React.FC<SaveFilePanelProps> = ({ gameState, profile, onImport }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [pendingImport, setPendingImport] = useState<PendingImport | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const close = () => {
+    setIsOpen(false);
+    setError(null);
+    setPendingImport(null);
+  };
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Let the same file be picked again after an error
+    event.target.value = '';
+    if (!file) return;
+
+    setPendingImport(null);
+    let result: SaveImportResult;
+    try {
+      result = parseSaveExport(await file.text());
+    } catch (readError) {
+      console.error('Failed to read save file:', readError);
+      setError("This file couldn't be read.");
+      return;
+    }
+    if (result.ok) {
+      setError(null);
+      setPendingImport(result);
+    } else {
+      setError(result.error);
+    }
+  };
+
+  const handleDownload = () => {
+    setError(null);
+    downloadSaveExport(gameState, profile).catch(downloadError => {
+      console.error('Failed to download save file:', downloadError);
+      setError("The save file couldn't be made.");
+    });
+  };
+
+  const confirmImport = () => {
+    if (!pendingImport) return;
+    onImport(pendingImport.state, pendingImport.learning);
+    close();
+  };
+
+  return (
+    <div className="fixed bottom-24 left-4 z-50">
+      {isOpen && (
+        <div className="absolute bottom-0 left-full ml-2 w-80 bg-white rounded-xl shadow-xl p-4 border border-gray-100 space-y-3">
+          <button
+            onClick={handleDownload}
+            className="w-full flex items-center justify-center space-x-2 py-2 rounded-lg bg-blue-500 hover:bg-blue-600 text-white font-medium"
+          >
+            <Download size={18} />
+            <span>Download save file</span>
+          </button>
+
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="w-full flex items-center justify-center space-x-2 py-2 rounded-lg bg-gray-100 hover:bg-gray-200 text-gray-700 font-medium"
+          >
+            <Upload size={18} />
+            <span>Load save file</span>
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            onChange={handleFile}
+            className="hidden"
+          />
+
+          {error && (
+            <div className="flex items-start space-x-2 bg-red-50 text-red-700 text-sm rounded-lg p-3">
+              <AlertTriangle size={16} className="flex-shrink-0 mt-0.5" />
+              <p>{error} Your current progress has not been changed.</p>
+            </div>
+          )}
+
+          {pendingImport && (
+            <div className="bg-yellow-50 rounded-lg p-3 text-sm text-gray-700 space-y-2">
+              <p>
+                Replace {profile.name}'s game with <span className="font-bold">{pendingImport.profileName}</span>'s save
+                {pendingImport.exportedAt > 0 && ` from ${new Date(pendingImport.exportedAt).toLocaleDateString()}`}
+                {' '}(Level {pendingImport.state.player.level}, {pendingImport.state.player.coins} coins)?
+              </p>
+              <div className="flex space-x-2">
+                <button
+                  onClick={confirmImport}
+                  className="flex-1 py-1.5 rounded-lg bg-yellow-500 hover:bg-yellow-600 text-white font-medium"
+                >
+                  Replace
+                </button>
+                <button
+                  onClick={() => setPendingImport(null)}
+                  className="flex-1 py-1.5 rounded-lg bg-gray-100 hover:bg-gray-200 text-gray-700 font-medium"
+                >
+                  Cancel
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+
+      <button
+        onClick={() => (isOpen ? close() : setIsOpen(true))}
+        className="bg-white bg-opacity-95 hover:bg-opacity-100 text-gray-700 p-4 rounded-2xl shadow-xl transition-all duration-200 transform hover:scale-105 border border-white border-opacity-30"
+        title="Save file"
+      >
+        <HardDrive size={24} />
+      </button>
+    </div>
+  );
+};
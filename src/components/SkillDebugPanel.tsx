@@ -0,0 +1,62 @@
+import React, { useEffect, useState } from 'react';
+import { SkillEstimates } from '../types/game';
+import { DIFFICULTIES } from '../utils/hunt';
+import { expectedScore, skillKey } from '../utils/adaptive';
+
+interface SkillDebugPanelProps {
+  skills: SkillEstimates;
+}
+
+// Readout of the adaptive engine's ratings (press K), with the expected score at each difficulty
+export const SkillDebugPanel: React.FC<SkillDebugPanelProps> = ({ skills }) => {
+  const [isVisible, setIsVisible] = useState(false);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.target instanceof HTMLInputElement || event.target instanceof HTMLTextAreaElement) return;
+      if (event.key.toLowerCase() === 'k') setIsVisible(visible => !visible);
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  if (!isVisible) return null;
+
+  const estimates = Object.values(skills).sort((a, b) =>
+    a.grade - b.grade || a.chapter.localeCompare(b.chapter) || a.topic.localeCompare(b.topic)
+  );
+
+  return (
+    <div className="fixed top-36 left-4 z-40 pointer-events-none bg-black bg-opacity-70 text-green-300 font-mono text-xs px-3 py-2 rounded-lg max-h-[60vh] overflow-y-auto">
+      <p className="text-white mb-1">Skill estimates</p>
+      {estimates.length === 0 ? (
+        <p>No answers yet</p>
+      ) : (
+        <table>
+          <thead>
+            <tr className="text-gray-400 text-left">
+              <th className="pr-3 font-normal">Topic</th>
+              <th className="pr-3 font-normal">Rating</th>
+              <th className="pr-3 font-normal">n</th>
+              {DIFFICULTIES.map(difficulty => (
+                <th key={difficulty} className="pr-2 font-normal">{difficulty}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {estimates.map(skill => (
+              <tr key={skillKey(skill)}>
+                <td className="pr-3">{skill.grade} · {skill.chapter} · {skill.topic}</td>
+                <td className="pr-3">{Math.round(skill.rating)}</td>
+                <td className="pr-3">{skill.answered}</td>
+                {DIFFICULTIES.map(difficulty => (
+                  <td key={difficulty} className="pr-2">{Math.round(expectedScore(skill.rating, difficulty) * 100)}%</td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
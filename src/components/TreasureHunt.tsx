@@ -0,0 +1,228 @@
+import React, { useState } from 'react';
+import { GameCanvas } from './GameCanvas';
+import { QuestionModal } from './QuestionModal';
+import { GameUI } from './GameUI';
+import { SaveFilePanel } from './SaveFilePanel';
+import { HuntSetup } from './HuntSetup';
+import { SkillDebugPanel } from './SkillDebugPanel';
+import { createNewGame, useGameState } from '../hooks/useGameState';
+import { environmentThemes, getNextEnvironment } from '../data/environments';
+import { toWorldCode } from '../utils/worldCode';
+import { hasSavedGame, loadGame } from '../utils/saveGame';
+import { getOpenBox, huntFilter } from '../utils/hunt';
+import { dueReviewQuestions, loadReviewQueue } from '../utils/reviewQueue';
+import { GameState, Profile } from '../types/game';
+import { TreePine, RotateCcw, Trophy, Star, Users } from 'lucide-react';
+
+interface TreasureHuntProps {
+  profile: Profile;
+  onSwitchProfile: () => void;
+}
+
+interface HuntWorldProps extends TreasureHuntProps {
+  initialState: GameState;
+  onNewHunt: () => void;
+}
+
+// One student's game; mount it with a new key per profile so their own save is loaded
+export const TreasureHunt: React.FC<TreasureHuntProps> = ({ profile, onSwitchProfile }) => {
+  // Read the save while mounting, before the first save can overwrite it; without one the student sets up a hunt
+  const [game, setGame] = useState<GameState | null>(() => loadGame(profile.id));
+
+  if (!game) {
+    return (
+      <HuntSetup
+        profile={profile}
+        onStart={(config, environment) =>
+          setGame(createNewGame(config, environment, dueReviewQuestions(loadReviewQueue(profile.id), huntFilter(config))))
+        }
+        onBack={hasSavedGame(profile.id) ? () => setGame(loadGame(profile.id)) : undefined}
+        onSwitchProfile={onSwitchProfile}
+      />
+    );
+  }
+
+  // The old hunt stays saved until a new one starts, so the student can change their mind
+  return <HuntWorld profile={profile} onSwitchProfile={onSwitchProfile} initialState={game} onNewHunt={() => setGame(null)} />;
+};
+
+const HuntWorld: React.FC<HuntWorldProps> = ({ profile, onSwitchProfile, initialState, onNewHunt }) => {
+  const { gameState, skills, actions, getProgressInfo } = useGameState(profile.id, initialState);
+  const completedBoxes = gameState.treasureBoxes.filter(box => box.isCompleted).length;
+  const totalBoxes = gameState.treasureBoxes.length;
+  const progressInfo = getProgressInfo();
+  const theme = environmentThemes[gameState.currentEnvironment];
+  const nextTheme = environmentThemes[getNextEnvironment(gameState.currentEnvironment)];
+
+  return (
+    <div className={`w-full h-screen bg-gradient-to-b ${theme.backgroundClass} overflow-hidden relative`}>
+      {/* Enhanced Game Title */}
+      <div className="absolute top-4 left-1/2 transform -translate-x-1/2 z-50">
+        <div className="bg-white bg-opacity-95 backdrop-blur-sm rounded-2xl shadow-xl px-8 py-4 border border-white border-opacity-30">
+          <div className="flex items-center space-x-4">
+            <div className="bg-green-100 p-2 rounded-xl">
+              <TreePine className="text-green-600" size={32} />
+            </div>
+            <div>
+              <h1 className="text-3xl font-bold text-gray-800">NCERT Math Adventure</h1>
+              <div className="flex items-center space-x-4 mt-1">
+                <span className="text-sm text-gray-600">Class 6-8 Mathematics</span>
+                <div className="flex items-center space-x-1">
+                  <Star className="text-yellow-500" size={16} />
+                  <span className="text-sm font-medium text-gray-700">Level {progressInfo.currentLevel}</span>
+                </div>
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Game Canvas */}
+      <div className="absolute inset-0">
+        <GameCanvas
+          player={gameState.player}
+          onPlayerMove={actions.movePlayer}
+          onTreasureBoxInteract={actions.interactWithTreasureBox}
+          treasureBoxes={gameState.treasureBoxes}
+          hintsEnabled={gameState.hintsEnabled}
+          environment={gameState.currentEnvironment}
+          seed={gameState.seed}
+          paused={gameState.isQuestionModalOpen}
+        />
+      </div>
+
+      {/* Enhanced Game UI */}
+      <GameUI
+        player={gameState.player}
+        hintsEnabled={gameState.hintsEnabled}
+        onToggleHints={actions.toggleHints}
+        completedBoxes={completedBoxes}
+        totalBoxes={totalBoxes}
+        getProgressInfo={getProgressInfo}
+        worldCode={toWorldCode(gameState.currentEnvironment, gameState.seed)}
+        onPlayWorldCode={actions.playWorldCode}
+      />
+
+      {/* Adaptive difficulty readout */}
+      <SkillDebugPanel skills={skills} />
+
+      {/* Enhanced Question Modal */}
+      <QuestionModal
+        question={gameState.currentQuestion}
+        isOpen={gameState.isQuestionModalOpen}
+        attempts={gameState.attempts}
+        hintsRevealed={getOpenBox(gameState)?.hintsRevealed ?? 0}
+        coins={gameState.player.coins}
+        onRevealHint={actions.revealHint}
+        onAnswer={actions.answerQuestion}
+        onClose={actions.closeQuestionModal}
+      />
+
+      {/* Enhanced Reset Button */}
+      <button
+        onClick={onNewHunt}
+        className="fixed bottom-4 left-4 z-50 bg-red-500 hover:bg-red-600 text-white p-4 rounded-2xl shadow-xl transition-all duration-200 transform hover:scale-105 border border-red-400"
+        title="New Hunt"
+      >
+        <RotateCcw size={24} />
+      </button>
+
+      {/* Save File Backup */}
+      <SaveFilePanel gameState={gameState} profile={profile} onImport={actions.importGame} />
+
+      {/* Switch Player Button */}
+      <button
+        onClick={onSwitchProfile}
+        className="fixed bottom-4 left-24 z-50 bg-white bg-opacity-95 hover:bg-opacity-100 text-gray-800 pl-2 pr-4 py-2 rounded-2xl shadow-xl transition-all duration-200 transform hover:scale-105 border border-white border-opacity-30 flex items-center space-x-3"
+        title="Switch Player"
+      >
+        <span
+          className="w-10 h-10 rounded-xl flex items-center justify-center text-white font-bold text-lg"
+          style={{ backgroundColor: profile.color }}
+        >
+          {profile.name.charAt(0).toUpperCase()}
+        </span>
+        <span className="font-bold">{profile.name}</span>
+        <Users className="text-gray-500" size={20} />
+      </button>
+
+      {/* Enhanced Completion Message */}
+      {completedBoxes === totalBoxes && (
+        <div className="fixed inset-0 bg-black bg-opacity-60 flex items-center justify-center z-50">
+          <div className="bg-white rounded-3xl shadow-2xl p-10 max-w-lg text-center relative overflow-hidden">
+            {/* Background Pattern */}
+            <div className="absolute inset-0 opacity-5">
+              <div className="absolute inset-0" style={{
+                backgroundImage: `url("data:image/svg+xml,%3Csvg width='60' height='60' viewBox='0 0 60 60' xmlns='http://www.w3.org/2000/svg'%3E%3Cg fill='none' fill-rule='evenodd'%3E%3Cg fill='%23000000' fill-opacity='0.4'%3E%3Ccircle cx='30' cy='30' r='4'/%3E%3C/g%3E%3C/g%3E%3C/svg%3E")`,
+              }}></div>
+            </div>
+            
+            <div className="relative z-10">
+              <div className="text-8xl mb-6">🏆</div>
+              <h2 className="text-4xl font-bold text-gray-800 mb-4">Congratulations!</h2>
+              <p className="text-xl text-gray-600 mb-6 leading-relaxed">
+                You've completed all the math challenges in the {theme.name.toLowerCase()}! 
+              </p>
+              
+              {/* Achievement Stats */}
+              <div className="bg-gradient-to-r from-green-50 to-blue-50 p-6 rounded-2xl mb-6">
+                <h3 className="text-lg font-bold text-gray-800 mb-4">Your Achievements</h3>
+                <div className="grid grid-cols-3 gap-4">
+                  <div className="text-center">
+                    <div className="text-2xl font-bold text-yellow-600">{gameState.player.coins}</div>
+                    <div className="text-sm text-gray-600">Coins Earned</div>
+                  </div>
+                  <div className="text-center">
+                    <div className="text-2xl font-bold text-purple-600">{gameState.player.xp}</div>
+                    <div className="text-sm text-gray-600">XP Gained</div>
+                  </div>
+                  <div className="text-center">
+                    <div className="text-2xl font-bold text-green-600">{progressInfo.currentLevel}</div>
+                    <div className="text-sm text-gray-600">Final Level</div>
+                  </div>
+                </div>
+              </div>
+
+              <div className="space-y-3">
+                <button
+                  onClick={actions.travelToNextEnvironment}
+                  className="w-full bg-gradient-to-r from-green-500 to-green-600 hover:from-green-600 hover:to-green-700 text-white px-8 py-4 rounded-2xl font-bold text-xl transition-all duration-200 transform hover:scale-105 shadow-lg"
+                >
+                  Explore the {nextTheme.name}
+                </button>
+                <p className="text-sm text-gray-500">{nextTheme.description}</p>
+
+                <button
+                  onClick={onNewHunt}
+                  className="w-full bg-gray-100 hover:bg-gray-200 text-gray-700 px-8 py-3 rounded-2xl font-bold text-lg transition-all duration-200"
+                >
+                  Play Again
+                </button>
+                
+                <p className="text-sm text-gray-500">
+                  Challenge yourself with new questions and improve your math skills!
+                </p>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Level Up Celebration */}
+      {progressInfo.progressPercentage >= 100 && completedBoxes < totalBoxes && (
+        <div className="fixed inset-0 bg-purple-900 bg-opacity-50 flex items-center justify-center z-40 pointer-events-none">
+          <div className="bg-gradient-to-r from-purple-600 to-purple-700 text-white px-12 py-8 rounded-3xl shadow-2xl animate-bounce">
+            <div className="text-center">
+              <Trophy className="mx-auto mb-4" size={48} />
+              <h3 className="text-3xl font-bold mb-2">LEVEL UP!</h3>
+              <p className="text-purple-200 text-lg">You reached Level {progressInfo.currentLevel + 1}!</p>
+              <div className="mt-4 text-yellow-300 text-sm">
+                +{progressInfo.currentLevel * 100} Bonus Coins!
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,88 @@
+import { CurriculumTag, QuestionFilter } from '../types/game';
+
+// NCERT Mathematics chapters in textbook order, for the classes the game covers
+export const NCERT_CHAPTERS: Record<number, string[]> = {
+  6: [
+    'Knowing Our Numbers',
+    'Whole Numbers',
+    'Playing with Numbers',
+    'Basic Geometrical Ideas',
+    'Understanding Elementary Shapes',
+    'Integers',
+    'Fractions',
+    'Decimals',
+    'Data Handling',
+    'Mensuration',
+    'Algebra',
+    'Ratio and Proportion',
+    'Symmetry',
+    'Practical Geometry'
+  ],
+  7: [
+    'Integers',
+    'Fractions and Decimals',
+    'Data Handling',
+    'Simple Equations',
+    'Lines and Angles',
+    'The Triangle and its Properties',
+    'Congruence of Triangles',
+    'Comparing Quantities',
+    'Rational Numbers',
+    'Practical Geometry',
+    'Perimeter and Area',
+    'Algebraic Expressions',
+    'Exponents and Powers',
+    'Symmetry',
+    'Visualising Solid Shapes'
+  ],
+  8: [
+    'Rational Numbers',
+    'Linear Equations in One Variable',
+    'Understanding Quadrilaterals',
+    'Practical Geometry',
+    'Data Handling',
+    'Squares and Square Roots',
+    'Cubes and Cube Roots',
+    'Comparing Quantities',
+    'Algebraic Expressions and Identities',
+    'Visualising Solid Shapes',
+    'Mensuration',
+    'Exponents and Powers',
+    'Direct and Inverse Proportions',
+    'Factorisation',
+    'Introduction to Graphs',
+    'Playing with Numbers'
+  ]
+};
+
+// Codes are M<class>.<chapter number>.<outcome>, e.g. M7.1.2 is the second outcome for Class 7, Chapter 1
+export const LEARNING_OUTCOMES: Record<string, string> = {
+  'M6.2.1': 'Divides whole numbers',
+  'M6.3.1': 'Finds the HCF of numbers',
+  'M6.3.2': 'Finds the LCM of numbers and uses it to solve problems',
+  'M6.3.3': 'Identifies prime and composite numbers',
+  'M6.6.1': 'Adds and subtracts integers',
+  'M6.7.1': 'Finds equivalent fractions and writes fractions in simplest form',
+  'M6.7.2': 'Adds and subtracts fractions',
+  'M6.8.1': 'Converts between fractions and decimals',
+  'M6.8.2': 'Adds and compares decimals',
+  'M6.10.1': 'Finds the perimeter and area of rectangles',
+  'M7.1.1': 'Adds, subtracts and compares integers',
+  'M7.1.2': 'Multiplies and divides integers',
+  'M7.2.1': 'Multiplies and divides decimals',
+  'M7.4.1': 'Solves simple linear equations',
+  'M7.6.1': 'Uses the angle sum property of a triangle',
+  'M7.8.1': 'Finds percentages of quantities',
+  'M7.11.1': 'Finds the area of triangles and rectangles',
+  'M7.12.1': 'Simplifies and evaluates algebraic expressions',
+  'M8.2.1': 'Solves linear equations with the variable on both sides',
+  'M8.5.1': 'Reads data from graphs and finds averages',
+  'M8.8.1': 'Solves problems on percentage increase and decrease',
+  'M8.11.1': 'Finds perimeters and areas of plane figures'
+};
+
+export const matchesFilter = (tag: CurriculumTag, filter: QuestionFilter = {}): boolean =>
+  (filter.grade === undefined || tag.grade === filter.grade)
+  && (filter.chapters === undefined || filter.chapters.includes(tag.chapter))
+  && (filter.topics === undefined || filter.topics.includes(tag.topic))
+  && (filter.learningOutcome === undefined || tag.learningOutcome === filter.learningOutcome);
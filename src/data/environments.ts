@@ -0,0 +1,152 @@
+import { Environment, EnvironmentTheme } from '../types/game';
+
+export const environmentThemes: Record<Environment, EnvironmentTheme> = {
+  jungle: {
+    id: 'jungle',
+    name: 'Jungle',
+    description: 'Palm trees, thick bushes and mossy rocks',
+    skyColor: 0x87CEEB,
+    fog: { color: 0x87CEEB, near: 50, far: 300 },
+    lighting: {
+      ambientColor: 0x404040,
+      ambientIntensity: 0.6,
+      sunColor: 0xffffff,
+      sunIntensity: 1.2,
+      rimColor: 0x87CEEB,
+      rimIntensity: 0.5
+    },
+    ground: {
+      baseColor: '#2E8B37',
+      patches: [
+        // Grass patches
+        { count: 1000, minSize: 2, maxSize: 10, hue: [100, 140], saturation: [50, 80], lightness: [25, 45] },
+        // Dirt patches
+        { count: 200, minSize: 5, maxSize: 20, hue: [30, 50], saturation: [40, 60], lightness: [20, 35] }
+      ]
+    },
+    chest: {
+      locked: 0x696969,
+      lockedLid: 0x555555,
+      completed: 0xFFD700,
+      lock: 0x444444,
+      easy: { body: 0x8B4513, glow: 0x32CD32 },
+      medium: { body: 0x4169E1, glow: 0x4169E1, gem: 0x0000FF },
+      hard: { body: 0x8B0000, glow: 0xFF4500, gem: 0xFF0000 },
+      review: { body: 0x5F9EA0, glow: 0xE0FFFF, gem: 0x00FFFF }
+    },
+    backgroundClass: 'from-green-400 via-green-500 to-green-600'
+  },
+  desert: {
+    id: 'desert',
+    name: 'Desert',
+    description: 'Sand dunes, cacti and sun-bleached boulders',
+    skyColor: 0xF4D03F,
+    fog: { color: 0xF5DEB3, near: 80, far: 380 },
+    lighting: {
+      ambientColor: 0x806040,
+      ambientIntensity: 0.8,
+      sunColor: 0xFFF1C1,
+      sunIntensity: 1.5,
+      rimColor: 0xFFB347,
+      rimIntensity: 0.4
+    },
+    ground: {
+      baseColor: '#E3C16F',
+      patches: [
+        // Sand ripples
+        { count: 1200, minSize: 2, maxSize: 8, hue: [38, 48], saturation: [55, 75], lightness: [60, 75] },
+        // Darker dry earth
+        { count: 150, minSize: 6, maxSize: 18, hue: [25, 35], saturation: [35, 50], lightness: [40, 50] }
+      ]
+    },
+    chest: {
+      locked: 0x8B7D6B,
+      lockedLid: 0x6E6253,
+      completed: 0xFFD700,
+      lock: 0x5C4033,
+      easy: { body: 0xA0522D, glow: 0xFFA500 },
+      medium: { body: 0x008B8B, glow: 0x00CED1, gem: 0x40E0D0 },
+      hard: { body: 0x800080, glow: 0xFF1493, gem: 0xFF00FF },
+      review: { body: 0x4682B4, glow: 0xF0F8FF, gem: 0x87CEFA }
+    },
+    backgroundClass: 'from-yellow-300 via-amber-400 to-orange-500'
+  },
+  city: {
+    id: 'city',
+    name: 'City',
+    description: 'Tall buildings, street lamps and parked cars',
+    skyColor: 0xB0C4DE,
+    fog: { color: 0xA9A9B0, near: 40, far: 260 },
+    lighting: {
+      ambientColor: 0x505060,
+      ambientIntensity: 0.7,
+      sunColor: 0xF0F0FF,
+      sunIntensity: 1.0,
+      rimColor: 0xFFD27F,
+      rimIntensity: 0.6
+    },
+    ground: {
+      baseColor: '#5A5A5A',
+      patches: [
+        // Asphalt speckle
+        { count: 1500, minSize: 1, maxSize: 4, hue: [0, 0], saturation: [0, 0], lightness: [28, 45] },
+        // Worn paving stones
+        { count: 120, minSize: 8, maxSize: 20, hue: [30, 40], saturation: [5, 15], lightness: [45, 55] }
+      ]
+    },
+    chest: {
+      locked: 0x555555,
+      lockedLid: 0x444444,
+      completed: 0xFFD700,
+      lock: 0x222222,
+      easy: { body: 0x2E8B57, glow: 0x00FF7F },
+      medium: { body: 0x1E90FF, glow: 0x00BFFF, gem: 0x87CEFA },
+      hard: { body: 0xDC143C, glow: 0xFF6347, gem: 0xFF4500 },
+      review: { body: 0x2E8B57, glow: 0x7FFFD4, gem: 0x00FA9A }
+    },
+    backgroundClass: 'from-slate-400 via-slate-500 to-slate-600'
+  },
+  space: {
+    id: 'space',
+    name: 'Space',
+    description: 'Moon craters, glowing crystals and distant planets',
+    skyColor: 0x05051A,
+    fog: { color: 0x0B0B2B, near: 60, far: 420 },
+    lighting: {
+      ambientColor: 0x404080,
+      ambientIntensity: 0.5,
+      sunColor: 0xDDE6FF,
+      sunIntensity: 1.1,
+      rimColor: 0x9370DB,
+      rimIntensity: 0.8
+    },
+    ground: {
+      baseColor: '#6E6E78',
+      patches: [
+        // Moon dust
+        { count: 1000, minSize: 1, maxSize: 6, hue: [230, 250], saturation: [5, 15], lightness: [40, 60] },
+        // Crater shadows
+        { count: 120, minSize: 8, maxSize: 24, hue: [240, 250], saturation: [5, 10], lightness: [25, 35] }
+      ]
+    },
+    chest: {
+      locked: 0x4B4B5B,
+      lockedLid: 0x3A3A48,
+      completed: 0xFFD700,
+      lock: 0x2A2A35,
+      easy: { body: 0x4682B4, glow: 0x7FFFD4 },
+      medium: { body: 0x6A5ACD, glow: 0x9370DB, gem: 0xE6E6FA },
+      hard: { body: 0x8B008B, glow: 0xFF00FF, gem: 0xFF69B4 },
+      review: { body: 0xC0C0C0, glow: 0xFFFFFF, gem: 0x7DF9FF }
+    },
+    backgroundClass: 'from-indigo-800 via-purple-900 to-gray-900'
+  }
+};
+
+// Order in which worlds open up as each hunt is completed
+export const environmentOrder: Environment[] = ['jungle', 'desert', 'city', 'space'];
+
+export const getNextEnvironment = (current: Environment): Environment => {
+  const index = environmentOrder.indexOf(current);
+  return environmentOrder[(index + 1) % environmentOrder.length];
+};
@@ -0,0 +1,811 @@
+import { CurriculumTag, Figure, Question, QuestionFilter } from '../types/game';
+import { createRandom, pick, randomInt, RandomSource, shuffle } from '../utils/random';
+import { parseNumber } from '../utils/grading';
+import { matchesFilter } from './curriculum';
+
+type Difficulty = Question['difficulty'];
+
+// A wrong answer, with the mistake that leads to it when there is a clear one
+type Distractor = string | { answer: string; feedback: string };
+
+// What a generator works out; turned into a multiple-choice question by generateQuestion
+interface QuestionDraft {
+  question: string;
+  correct: string;
+  // Wrong answers from common mistakes, most plausible first
+  distractors: Distractor[];
+  // From a nudge to part of the working
+  hints: string[];
+  // The worked solution, one step at a time
+  explanation: string[];
+  figure?: Figure;
+}
+
+export interface QuestionGenerator {
+  id: string;
+  difficulties: Difficulty[];
+  // Where each level of the generator's questions sits in the syllabus
+  curriculum: Record<Difficulty, CurriculumTag>;
+  generate: (random: RandomSource, difficulty: Difficulty) => QuestionDraft;
+}
+
+const OPTION_COUNT = 4;
+
+const mistake = (answer: string, feedback: string): Distractor => ({ answer, feedback });
+
+const gcd = (a: number, b: number): number => (b === 0 ? Math.abs(a) : gcd(b, a % b));
+const lcm = (a: number, b: number): number => Math.abs(a * b) / gcd(a, b);
+
+// Simplest form, e.g. fraction(6, 8) is "3/4" and fraction(4, 2) is "2"
+const fraction = (numerator: number, denominator: number): string => {
+  const divisor = gcd(numerator, denominator) || 1;
+  const sign = numerator * denominator < 0 ? '-' : '';
+  const n = Math.abs(numerator / divisor);
+  const d = Math.abs(denominator / divisor);
+  return d === 1 ? `${sign}${n}` : `${sign}${n}/${d}`;
+};
+
+// Rounds away floating point noise such as 0.1 + 0.2 = 0.30000000000000004
+const decimal = (value: number, places: number = 4): string => `${parseFloat(value.toFixed(places))}`;
+
+// Negative numbers in brackets so "5 - (-3)" reads correctly
+const signed = (value: number): string => (value < 0 ? `(${value})` : `${value}`);
+
+// "3x + 5" or "3x - 5"
+const linear = (coefficient: number, constant: number): string => {
+  const term = coefficient === 1 ? 'x' : `${coefficient}x`;
+  if (constant === 0) return term;
+  return constant > 0 ? `${term} + ${constant}` : `${term} - ${-constant}`;
+};
+
+// A wrong answer close to the right one, for when the mistakes run out
+const nudge = (answer: string, step: number): string => {
+  const fractionMatch = answer.match(/^(-?\d+)\/(\d+)$/);
+  if (fractionMatch) {
+    return fraction(parseInt(fractionMatch[1], 10) + step, parseInt(fractionMatch[2], 10));
+  }
+  const places = answer.split('.')[1]?.length ?? 0;
+  return decimal(parseFloat(answer) + step * 10 ** -places, places);
+};
+
+const sameValue = (a: string, b: string) => {
+  const first = parseNumber(a);
+  const second = parseNumber(b);
+  return first && second ? Math.abs(first.value - second.value) < 1e-9 : a === b;
+};
+
+const fractions: QuestionGenerator = {
+  id: 'fractions',
+  difficulties: ['easy', 'medium', 'hard'],
+  curriculum: {
+    easy: { grade: 6, chapter: 'Fractions', topic: 'Adding fractions', learningOutcome: 'M6.7.2' },
+    medium: { grade: 6, chapter: 'Fractions', topic: 'Adding unlike fractions', learningOutcome: 'M6.7.2' },
+    hard: { grade: 6, chapter: 'Fractions', topic: 'Subtracting unlike fractions', learningOutcome: 'M6.7.2' }
+  },
+  generate: (random, difficulty) => {
+    if (difficulty === 'easy') {
+      const d = randomInt(random, 5, 12);
+      const a = randomInt(random, 1, d - 2);
+      const b = randomInt(random, 1, d - 1 - a);
+      const sum = fraction(a + b, d);
+      return {
+        question: `What is $${a}/${d} + ${b}/${d}$?`,
+        correct: sum,
+        distractors: [
+          mistake(`${a + b}/${d + d}`, 'You added the denominators too. When the denominators are the same, only the numerators are added.'),
+          mistake(fraction(a * b, d), 'You multiplied the numerators instead of adding them.'),
+          mistake(fraction(Math.abs(a - b), d), 'You subtracted the numerators instead of adding them.'),
+          mistake(fraction(a + b, d * d), 'You multiplied the denominators. When they are the same, the denominator stays as it is.')
+        ],
+        hints: [
+          'The denominators are already the same, so only the numerators change.',
+          `Add the numerators: ${a} + ${b} = ${a + b}. The denominator stays ${d}.`
+        ],
+        explanation: [
+          'The denominators are the same, so add the numerators and keep the denominator.',
+          `$${a}/${d} + ${b}/${d} = ${a + b}/${d}$`,
+          ...(sum !== `${a + b}/${d}` ? [`Simplify: $${a + b}/${d} = ${sum}$`] : [])
+        ]
+      };
+    }
+
+    const [b, d] = shuffle([2, 3, 4, 5, 6, 7, 8, 9], random).slice(0, 2);
+    let a: number;
+    let c: number;
+    // Equal fractions such as 1/3 and 2/6 would make the difference zero
+    do {
+      a = randomInt(random, 1, b - 1);
+      c = randomInt(random, 1, d - 1);
+    } while (a * d === c * b);
+    const common = lcm(b, d);
+    const first = a * (common / b);
+    const second = c * (common / d);
+
+    if (difficulty === 'medium') {
+      const sum = fraction(first + second, common);
+      return {
+        question: `What is $${a}/${b} + ${c}/${d}$?`,
+        correct: sum,
+        distractors: [
+          mistake(`${a + c}/${b + d}`, 'You added the numerators and the denominators. Rewrite both fractions over a common denominator first.'),
+          mistake(fraction(a + c, common), `You changed the denominators to ${common} but kept the old numerators. Multiply each numerator by the same number as its denominator.`),
+          mistake(fraction(a * c, b * d), 'You multiplied the fractions instead of adding them.'),
+          mistake(fraction(first + second, common * 2), `You added the denominators. Once both fractions are over ${common}, the denominator stays ${common}.`)
+        ],
+        hints: [
+          `The denominators are different. Rewrite both fractions with the LCM of ${b} and ${d} as the denominator.`,
+          `The LCM is ${common}, so $${a}/${b} = ${first}/${common}$ and $${c}/${d} = ${second}/${common}$.`
+        ],
+        explanation: [
+          `The LCM of ${b} and ${d} is ${common}.`,
+          `Rewrite both fractions over ${common}: $${a}/${b} = ${first}/${common}$ and $${c}/${d} = ${second}/${common}$.`,
+          `Add the numerators: $${first}/${common} + ${second}/${common} = ${first + second}/${common}$`,
+          ...(sum !== `${first + second}/${common}` ? [`Simplify: $${first + second}/${common} = ${sum}$`] : [])
+        ]
+      };
+    }
+
+    // Put the larger fraction first so the difference stays positive
+    const [big, small] = first >= second
+      ? [{ n: a, d: b, scaled: first }, { n: c, d, scaled: second }]
+      : [{ n: c, d, scaled: second }, { n: a, d: b, scaled: first }];
+    const difference = fraction(big.scaled - small.scaled, common);
+    const distractors = [
+      mistake(fraction(big.n - small.n, common), `You changed the denominators to ${common} but kept the old numerators. Multiply each numerator by the same number as its denominator.`),
+      mistake(fraction(big.scaled + small.scaled, common), 'You added the fractions instead of subtracting them.'),
+      mistake(fraction(small.scaled - big.scaled, common), 'You took the larger fraction away from the smaller one.')
+    ];
+    if (big.d !== small.d && big.n - small.n !== 0) {
+      distractors.unshift(mistake(
+        `${big.n - small.n}/${Math.abs(big.d - small.d)}`,
+        'You subtracted the numerators and the denominators. Rewrite both fractions over a common denominator first.'
+      ));
+    }
+    return {
+      question: `What is $${big.n}/${big.d} - ${small.n}/${small.d}$?`,
+      correct: difference,
+      distractors,
+      hints: [
+        `The denominators are different. Rewrite both fractions with the LCM of ${big.d} and ${small.d} as the denominator.`,
+        `The LCM is ${common}, so $${big.n}/${big.d} = ${big.scaled}/${common}$ and $${small.n}/${small.d} = ${small.scaled}/${common}$.`
+      ],
+      explanation: [
+        `The LCM of ${big.d} and ${small.d} is ${common}.`,
+        `Rewrite both fractions over ${common}: $${big.n}/${big.d} = ${big.scaled}/${common}$ and $${small.n}/${small.d} = ${small.scaled}/${common}$.`,
+        `Subtract the numerators: $${big.scaled}/${common} - ${small.scaled}/${common} = ${big.scaled - small.scaled}/${common}$`,
+        ...(difference !== `${big.scaled - small.scaled}/${common}` ? [`Simplify: $${big.scaled - small.scaled}/${common} = ${difference}$`] : [])
+      ]
+    };
+  }
+};
+
+const decimals: QuestionGenerator = {
+  id: 'decimals',
+  difficulties: ['easy', 'medium', 'hard'],
+  curriculum: {
+    easy: { grade: 6, chapter: 'Decimals', topic: 'Adding decimals', learningOutcome: 'M6.8.2' },
+    medium: { grade: 7, chapter: 'Fractions and Decimals', topic: 'Multiplying decimals', learningOutcome: 'M7.2.1' },
+    hard: { grade: 7, chapter: 'Fractions and Decimals', topic: 'Dividing decimals', learningOutcome: 'M7.2.1' }
+  },
+  generate: (random, difficulty) => {
+    if (difficulty === 'easy') {
+      const tenths = randomInt(random, 11, 99);
+      const hundredths = randomInt(random, 11, 99);
+      const a = tenths / 10;
+      const b = hundredths / 100;
+      return {
+        question: `What is ${decimal(a)} + ${decimal(b)}?`,
+        correct: decimal(a + b),
+        distractors: [
+          mistake(decimal((tenths + hundredths) / 100), 'You added the digits as whole numbers without lining up the decimal points.'),
+          mistake(decimal(a + b * 10), `You treated ${decimal(b)} as ${decimal(b * 10)}. Line up the decimal points before adding.`),
+          mistake(decimal((tenths + hundredths) / 10), 'You added the digits as whole numbers without lining up the decimal points.'),
+          decimal(a + b + 0.1)
+        ],
+        hints: [
+          'Line up the decimal points before adding.',
+          `Write ${decimal(a)} as ${a.toFixed(2)} so both numbers have two decimal places.`
+        ],
+        explanation: [
+          `Line up the decimal points and write ${decimal(a)} as ${a.toFixed(2)}.`,
+          `${a.toFixed(2)} + ${b.toFixed(2)} = ${decimal(a + b)}`
+        ]
+      };
+    }
+
+    if (difficulty === 'medium') {
+      const a = randomInt(random, 2, 99) / 10;
+      const b = randomInt(random, 2, 9) / 10;
+      const product = a * b;
+      return {
+        question: `What is ${decimal(a)} × ${decimal(b)}?`,
+        correct: decimal(product),
+        distractors: [
+          mistake(decimal(product * 10), 'Count the digits after both decimal points: there are 2 in total, so the answer has 2 decimal places.'),
+          mistake(decimal(product / 10), 'There are 2 digits after the decimal points in total, not 3.'),
+          mistake(decimal(a + b), 'You added the numbers instead of multiplying them.'),
+          mistake(decimal(product * 100), 'You left out the decimal point. The answer has 2 digits after it.')
+        ],
+        hints: [
+          'Multiply as if there were no decimal points, then put the point back.',
+          `${Math.round(a * 10)} × ${Math.round(b * 10)} = ${Math.round(product * 100)}. Count the digits after the decimal points in the question.`
+        ],
+        explanation: [
+          `Multiply without the decimal points: ${Math.round(a * 10)} × ${Math.round(b * 10)} = ${Math.round(product * 100)}`,
+          `There are 2 digits after the decimal points in total, so the answer is ${decimal(product)}.`
+        ]
+      };
+    }
+
+    const divisor = randomInt(random, 2, 9) / 10;
+    const quotient = randomInt(random, 3, 25);
+    const dividend = divisor * quotient;
+    return {
+      question: `What is ${decimal(dividend)} ÷ ${decimal(divisor)}?`,
+      correct: `${quotient}`,
+      distractors: [
+        mistake(decimal(quotient / 10), 'You multiplied the divisor by 10 but not the dividend. Do the same to both.'),
+        mistake(decimal(quotient * 10), 'You multiplied the dividend by 10 but not the divisor. Do the same to both.'),
+        mistake(decimal(dividend * divisor), 'You multiplied instead of dividing.'),
+        decimal(quotient + 1)
+      ],
+      hints: [
+        'Make the divisor a whole number first.',
+        `Multiply both numbers by 10: ${decimal(dividend * 10)} ÷ ${Math.round(divisor * 10)}.`
+      ],
+      explanation: [
+        `Multiply both numbers by 10 so the divisor is a whole number: ${decimal(dividend)} ÷ ${decimal(divisor)} = ${decimal(dividend * 10)} ÷ ${Math.round(divisor * 10)}`,
+        `${decimal(dividend * 10)} ÷ ${Math.round(divisor * 10)} = ${quotient}`
+      ]
+    };
+  }
+};
+
+const integers: QuestionGenerator = {
+  id: 'integers',
+  difficulties: ['easy', 'medium', 'hard'],
+  curriculum: {
+    easy: { grade: 6, chapter: 'Integers', topic: 'Adding integers', learningOutcome: 'M6.6.1' },
+    medium: { grade: 7, chapter: 'Integers', topic: 'Multiplying integers', learningOutcome: 'M7.1.2' },
+    hard: { grade: 7, chapter: 'Integers', topic: 'Order of operations', learningOutcome: 'M7.1.2' }
+  },
+  generate: (random, difficulty) => {
+    if (difficulty === 'easy') {
+      const a = randomInt(random, -15, 15) || 7;
+      const b = -randomInt(random, 2, 15);
+      return {
+        question: `What is ${a} + ${signed(b)}?`,
+        correct: `${a + b}`,
+        distractors: [
+          mistake(`${a - b}`, 'Adding a negative number moves you left on the number line, not right.'),
+          mistake(`${-(a + b)}`, 'Right distance, wrong sign. Check which side of zero you end up on.'),
+          mistake(`${Math.abs(a) + Math.abs(b)}`, 'You ignored the signs and added the sizes of the numbers.'),
+          `${-(a - b)}`
+        ],
+        hints: [
+          'Adding a negative number moves you left on the number line.',
+          `${a} + ${signed(b)} is the same as ${a} - ${-b}.`
+        ],
+        explanation: [
+          `Adding ${b} is the same as subtracting ${-b}: ${a} + ${signed(b)} = ${a} - ${-b}`,
+          `Start at ${a} and move ${-b} to the left: ${a} - ${-b} = ${a + b}`
+        ],
+        figure: {
+          kind: 'number-line',
+          min: a + b - 1,
+          max: a + 1,
+          points: [{ value: a, label: 'Start' }],
+          alt: `A number line from ${a + b - 1} to ${a + 1} with ${a} marked as the start`
+        }
+      };
+    }
+
+    if (difficulty === 'medium') {
+      const a = randomInt(random, 2, 12) * pick([-1, 1], random);
+      const b = -randomInt(random, 2, 12);
+      const product = a * b;
+      return {
+        question: `What is ${signed(a)} × ${signed(b)}?`,
+        correct: `${product}`,
+        distractors: [
+          mistake(`${-product}`, product > 0
+            ? 'Right size, wrong sign. Two negative numbers multiply to give a positive number.'
+            : 'Right size, wrong sign. A positive and a negative number multiply to give a negative number.'),
+          mistake(`${a + b}`, 'You added the numbers instead of multiplying them.'),
+          mistake(`${a - b}`, 'You subtracted the numbers instead of multiplying them.'),
+          `${product + a}`
+        ],
+        hints: [
+          'Multiply the numbers without their signs, then work out the sign.',
+          `${Math.abs(a)} × ${Math.abs(b)} = ${Math.abs(product)}. Is one number negative, or both?`
+        ],
+        explanation: [
+          `Multiply without the signs: ${Math.abs(a)} × ${Math.abs(b)} = ${Math.abs(product)}`,
+          product > 0
+            ? 'Two negative numbers multiply to give a positive number.'
+            : 'A positive and a negative number multiply to give a negative number.',
+          `So the answer is ${product}.`
+        ]
+      };
+    }
+
+    const a = randomInt(random, -20, 20);
+    const b = randomInt(random, 2, 9) * pick([-1, 1], random);
+    const c = -randomInt(random, 2, 9);
+    const answer = a - b * c;
+    return {
+      question: `What is ${a} - ${signed(b)} × ${signed(c)}?`,
+      correct: `${answer}`,
+      distractors: [
+        mistake(`${(a - b) * c}`, 'You worked from left to right. Multiplication comes before subtraction.'),
+        mistake(`${a + b * c}`, `You multiplied first, then added ${signed(b * c)} instead of subtracting it.`),
+        `${-answer}`,
+        `${(a + b) * c}`
+      ],
+      hints: [
+        'Multiplication comes before subtraction.',
+        `${signed(b)} × ${signed(c)} = ${b * c}, so work out ${a} - ${signed(b * c)}.`
+      ],
+      explanation: [
+        `Multiply before subtracting: ${signed(b)} × ${signed(c)} = ${b * c}`,
+        `Then subtract: ${a} - ${signed(b * c)} = ${answer}`
+      ]
+    };
+  }
+};
+
+const linearEquations: QuestionGenerator = {
+  id: 'linear-equations',
+  difficulties: ['easy', 'medium', 'hard'],
+  curriculum: {
+    easy: { grade: 7, chapter: 'Simple Equations', topic: 'Solving equations', learningOutcome: 'M7.4.1' },
+    medium: { grade: 7, chapter: 'Simple Equations', topic: 'Solving equations', learningOutcome: 'M7.4.1' },
+    hard: { grade: 8, chapter: 'Linear Equations in One Variable', topic: 'Variables on both sides', learningOutcome: 'M8.2.1' }
+  },
+  generate: (random, difficulty) => {
+    const x = randomInt(random, -6, 12) || 4;
+
+    if (difficulty === 'easy') {
+      const b = randomInt(random, 2, 15);
+      const c = x + b;
+      return {
+        question: `Solve for $x$: $x + ${b} = ${c}$`,
+        correct: `${x}`,
+        distractors: [
+          mistake(`${c + b}`, `You added ${b} to both sides. Subtract it to undo the addition.`),
+          mistake(`${b - c}`, `You subtracted the wrong way round: it is ${c} - ${b}.`),
+          mistake(`${c}`, `That is the right-hand side. Take ${b} away from it to find $x$.`),
+          `${x + 1}`
+        ],
+        hints: [
+          'Get $x$ on its own by undoing the addition.',
+          `Subtract ${b} from both sides: $x = ${c} - ${b}$.`
+        ],
+        explanation: [
+          `Subtract ${b} from both sides: $x = ${c} - ${b}$`,
+          `$x = ${x}$`
+        ]
+      };
+    }
+
+    if (difficulty === 'medium') {
+      const a = randomInt(random, 2, 9);
+      const b = (randomInt(random, 1, 20)) * pick([-1, 1], random);
+      const c = a * x + b;
+      return {
+        question: `Solve for $x$: $${linear(a, b)} = ${c}$`,
+        correct: `${x}`,
+        distractors: [
+          mistake(decimal((c + b) / a, 2), `You moved the ${b > 0 ? `+ ${b}` : `- ${-b}`} to the other side without changing its sign.`),
+          mistake(`${c - b - a}`, `You subtracted ${a} instead of dividing by it. $${a}x$ means ${a} × $x$.`),
+          mistake(`${-x}`, 'Right size, wrong sign. Put your answer back into the equation to check it.'),
+          mistake(decimal(c / a - b, 2), 'You divided before dealing with the number added. Undo the adding or subtracting first.')
+        ],
+        hints: [
+          'Undo the adding or subtracting first, then the multiplying.',
+          `${b > 0 ? `Subtract ${b} from` : `Add ${-b} to`} both sides: $${a}x = ${c - b}$.`
+        ],
+        explanation: [
+          `${b > 0 ? `Subtract ${b} from` : `Add ${-b} to`} both sides: $${a}x = ${c - b}$`,
+          `Divide both sides by ${a}: $x = ${c - b} \\div ${a} = ${x}$`
+        ]
+      };
+    }
+
+    const a = randomInt(random, 3, 9);
+    const c = randomInt(random, 1, a - 1);
+    const b = randomInt(random, -15, 15);
+    const d = (a - c) * x + b;
+    return {
+      question: `Solve for $x$: $${linear(a, b)} = ${linear(c, d)}$`,
+      correct: `${x}`,
+      distractors: [
+        mistake(decimal((d - b) / (a + c), 2), `You added the $x$ terms. Subtract $${c === 1 ? 'x' : `${c}x`}$ from both sides to collect them.`),
+        mistake(decimal((d + b) / (a - c), 2), `You moved the ${b > 0 ? `+ ${b}` : `- ${-b}`} to the other side without changing its sign.`),
+        mistake(`${-x}`, 'Right size, wrong sign. Put your answer back into the equation to check it.'),
+        mistake(`${d - b}`, `You forgot to divide by ${a - c} at the end.`)
+      ],
+      hints: [
+        'Collect the $x$ terms on one side first.',
+        `Subtract $${c === 1 ? 'x' : `${c}x`}$ from both sides: $${linear(a - c, b)} = ${d}$.`
+      ],
+      explanation: [
+        `Subtract $${c === 1 ? 'x' : `${c}x`}$ from both sides: $${linear(a - c, b)} = ${d}$`,
+        ...(b !== 0 ? [`${b > 0 ? `Subtract ${b} from` : `Add ${-b} to`} both sides: $${a - c === 1 ? 'x' : `${a - c}x`} = ${d - b}$`] : []),
+        a - c === 1 ? `So $x = ${x}$` : `Divide both sides by ${a - c}: $x = ${x}$`
+      ]
+    };
+  }
+};
+
+const lcmHcf: QuestionGenerator = {
+  id: 'lcm-hcf',
+  difficulties: ['easy', 'medium', 'hard'],
+  curriculum: {
+    easy: { grade: 6, chapter: 'Playing with Numbers', topic: 'HCF', learningOutcome: 'M6.3.1' },
+    medium: { grade: 6, chapter: 'Playing with Numbers', topic: 'LCM', learningOutcome: 'M6.3.2' },
+    hard: { grade: 6, chapter: 'Playing with Numbers', topic: 'LCM word problems', learningOutcome: 'M6.3.2' }
+  },
+  generate: (random, difficulty) => {
+    // Two numbers sharing a known highest common factor
+    const hcf = randomInt(random, 2, difficulty === 'hard' ? 6 : 9);
+    const coprimes = shuffle([[2, 3], [2, 5], [3, 4], [3, 5], [4, 5], [2, 7], [3, 7], [5, 6]], random)[0];
+    const [a, b] = coprimes.map(factor => factor * hcf);
+    const multiple = lcm(a, b);
+    const smallerFactor = [2, 3, 5, 7].find(prime => hcf % prime === 0 && prime < hcf) ?? 1;
+
+    if (difficulty === 'easy') {
+      return {
+        question: `What is the HCF of ${a} and ${b}?`,
+        correct: `${hcf}`,
+        distractors: [
+          mistake(`${smallerFactor}`, `${smallerFactor} divides both numbers, but it is not the highest common factor.`),
+          mistake(`${multiple}`, 'That is the LCM. The HCF is the highest number that divides both.'),
+          mistake(`${Math.min(a, b)}`, `${Math.min(a, b)} does not divide ${Math.max(a, b)}.`),
+          mistake(`${hcf * 2}`, `${hcf * 2} does not divide both numbers.`)
+        ],
+        hints: [
+          'The HCF is the largest number that divides both exactly.',
+          `${a} = ${hcf} × ${coprimes[0]} and ${b} = ${hcf} × ${coprimes[1]}.`
+        ],
+        explanation: [
+          `Write both numbers using a common factor: ${a} = ${hcf} × ${coprimes[0]} and ${b} = ${hcf} × ${coprimes[1]}`,
+          `${coprimes[0]} and ${coprimes[1]} have no common factor other than 1, so the highest common factor is ${hcf}.`
+        ]
+      };
+    }
+
+    const lcmHints = [
+      'LCM = product of the numbers ÷ their HCF.',
+      `${a} = ${hcf} × ${coprimes[0]} and ${b} = ${hcf} × ${coprimes[1]}, so their HCF is ${hcf}.`
+    ];
+    const explanation = [
+      `${a} = ${hcf} × ${coprimes[0]} and ${b} = ${hcf} × ${coprimes[1]}, so their HCF is ${hcf}.`,
+      `LCM = ${a} × ${b} ÷ HCF = ${a * b} ÷ ${hcf}`,
+      `LCM = ${multiple}`
+    ];
+
+    if (difficulty === 'medium') {
+      return {
+        question: `What is the LCM of ${a} and ${b}?`,
+        correct: `${multiple}`,
+        distractors: [
+          mistake(`${a * b}`, `${a * b} is a common multiple, but not the lowest one. Divide it by the HCF.`),
+          mistake(`${hcf}`, 'That is the HCF. The LCM is the lowest number that both divide into.'),
+          mistake(`${multiple * 2}`, `${multiple * 2} is a common multiple, but not the lowest one.`),
+          mistake(`${a + b}`, 'You added the numbers. The LCM is the lowest number that both divide into.')
+        ],
+        hints: lcmHints,
+        explanation
+      };
+    }
+
+    return {
+      question: `Two bells ring every ${a} and ${b} minutes. If they ring together now, after how many minutes will they next ring together?`,
+      correct: `${multiple}`,
+      distractors: [
+        mistake(`${a * b}`, `${a * b} is a common multiple, but not the lowest one. Divide it by the HCF.`),
+        mistake(`${a + b}`, 'You added the two times. They ring together at the lowest common multiple.'),
+        mistake(`${hcf}`, 'That is the HCF. They ring together at the lowest common multiple.'),
+        mistake(`${multiple * 2}`, `They do ring together after ${multiple * 2} minutes, but not for the first time.`)
+      ],
+      hints: [
+        'The bells ring together at common multiples of the two times.',
+        ...lcmHints
+      ],
+      explanation: [`The bells ring together at common multiples of ${a} and ${b}, and the first one is their LCM.`, ...explanation]
+    };
+  }
+};
+
+const percentages: QuestionGenerator = {
+  id: 'percentages',
+  difficulties: ['easy', 'medium', 'hard'],
+  curriculum: {
+    easy: { grade: 7, chapter: 'Comparing Quantities', topic: 'Percentages', learningOutcome: 'M7.8.1' },
+    medium: { grade: 7, chapter: 'Comparing Quantities', topic: 'Percentages', learningOutcome: 'M7.8.1' },
+    hard: { grade: 8, chapter: 'Comparing Quantities', topic: 'Increase and decrease', learningOutcome: 'M8.8.1' }
+  },
+  generate: (random, difficulty) => {
+    const whole = randomInt(random, 2, 20) * 20;
+
+    if (difficulty === 'hard') {
+      const percent = randomInt(random, 1, 8) * 5;
+      const isIncrease = random() < 0.5;
+      const change = (whole * percent) / 100;
+      const result = isIncrease ? whole + change : whole - change;
+      return {
+        question: `A bag costs ₹${whole}. Its price is ${isIncrease ? 'increased' : 'decreased'} by ${percent}%. What is the new price in rupees?`,
+        correct: decimal(result),
+        distractors: [
+          mistake(decimal(change), `That is the change in price. ${isIncrease ? 'Add it to' : 'Take it away from'} ₹${whole}.`),
+          mistake(decimal(isIncrease ? whole - change : whole + change), `The price ${isIncrease ? 'went up' : 'went down'}, so ${isIncrease ? 'add' : 'subtract'} the change.`),
+          mistake(`${isIncrease ? whole + percent : whole - percent}`, `You ${isIncrease ? 'added' : 'took away'} ₹${percent}, not ${percent}% of the price.`),
+          decimal(result + change)
+        ],
+        hints: [
+          'Work out the change first, then add it to or take it from the price.',
+          `${percent}% of ₹${whole} = ${percent}/100 × ${whole} = ₹${decimal(change)}.`
+        ],
+        explanation: [
+          `Work out the change: ${percent}% of ₹${whole} = ${percent}/100 × ${whole} = ₹${decimal(change)}`,
+          `The new price is ₹${whole} ${isIncrease ? '+' : '-'} ₹${decimal(change)} = ₹${decimal(result)}`
+        ]
+      };
+    }
+
+    const percent = difficulty === 'easy' ? pick([10, 20, 25, 50, 75], random) : randomInt(random, 1, 19) * 5;
+    const part = (whole * percent) / 100;
+    return {
+      question: `What is ${percent}% of ${whole}?`,
+      correct: decimal(part),
+      distractors: [
+        mistake(decimal((whole * percent) / 10), 'Per cent means out of 100, not out of 10.'),
+        mistake(decimal(whole - part), `That is what is left after taking ${percent}% away.`),
+        mistake(decimal(whole / percent, 2), `You divided ${whole} by ${percent}. Work out ${percent}/100 × ${whole} instead.`),
+        decimal(part * 2)
+      ],
+      hints: [
+        `${percent}% means ${percent} out of every 100.`,
+        `Work out ${percent}/100 × ${whole}.`
+      ],
+      explanation: [
+        `${percent}% means ${percent} out of every 100, so ${percent}% of ${whole} = ${percent}/100 × ${whole}`,
+        `${percent}/100 × ${whole} = ${decimal(part)}`
+      ]
+    };
+  }
+};
+
+// Drawn to scale, with the length along the top and the breadth down the right side
+const rectangleFigure = (length: number, breadth: number, unit: string): Figure => ({
+  kind: 'shapes',
+  width: length,
+  height: breadth,
+  shapes: [
+    { kind: 'polygon', points: [[0, 0], [length, 0], [length, breadth], [0, breadth]], shaded: true },
+    { kind: 'dimension', from: [0, 0], to: [length, 0], label: `${length} ${unit}` },
+    { kind: 'dimension', from: [length, 0], to: [length, breadth], label: `${breadth} ${unit}` }
+  ],
+  alt: `A rectangle ${length} ${unit} long and ${breadth} ${unit} wide`
+});
+
+// A scalene triangle with its height dropped as a dashed line onto the base
+const triangleFigure = (base: number, height: number): Figure => {
+  const apex = base * 0.35;
+  return {
+    kind: 'shapes',
+    width: base,
+    height,
+    shapes: [
+      { kind: 'polygon', points: [[0, height], [apex, 0], [base, height]], shaded: true },
+      { kind: 'segment', from: [apex, 0], to: [apex, height], dashed: true, label: `${height} cm` },
+      { kind: 'angle', vertex: [apex, height], from: [apex, 0], to: [base, height], right: true },
+      { kind: 'dimension', from: [base, height], to: [0, height], label: `${base} cm` }
+    ],
+    alt: `A triangle with a base of ${base} cm and a height of ${height} cm`
+  };
+};
+
+const areaPerimeter: QuestionGenerator = {
+  id: 'area-perimeter',
+  difficulties: ['easy', 'medium', 'hard'],
+  curriculum: {
+    easy: { grade: 6, chapter: 'Mensuration', topic: 'Perimeter of a rectangle', learningOutcome: 'M6.10.1' },
+    medium: { grade: 6, chapter: 'Mensuration', topic: 'Area of a rectangle', learningOutcome: 'M6.10.1' },
+    hard: { grade: 7, chapter: 'Perimeter and Area', topic: 'Area and perimeter', learningOutcome: 'M7.11.1' }
+  },
+  generate: (random, difficulty) => {
+    const length = randomInt(random, 4, 20);
+    const breadth = randomInt(random, 2, length - 1);
+
+    if (difficulty === 'easy') {
+      return {
+        question: `A rectangle is ${length} cm long and ${breadth} cm wide. What is its perimeter in cm?`,
+        correct: `${2 * (length + breadth)}`,
+        distractors: [
+          mistake(`${length * breadth}`, 'That is the area. The perimeter is the distance all the way around.'),
+          mistake(`${length + breadth}`, 'You added one length and one breadth. A rectangle has two of each.'),
+          mistake(`${2 * length + breadth}`, 'You left out one of the breadths.'),
+          mistake(`${4 * length}`, 'Only a square has four equal sides.')
+        ],
+        hints: [
+          'The perimeter is the distance all the way around.',
+          `Perimeter = 2 × (length + breadth) = 2 × (${length} + ${breadth}).`
+        ],
+        explanation: [
+          'Perimeter of a rectangle = 2 × (length + breadth)',
+          `= 2 × (${length} + ${breadth}) = 2 × ${length + breadth}`,
+          `= ${2 * (length + breadth)} cm`
+        ],
+        figure: rectangleFigure(length, breadth, 'cm')
+      };
+    }
+
+    if (difficulty === 'medium') {
+      return {
+        question: `A rectangular field is ${length} m long and ${breadth} m wide. What is its area in m²?`,
+        correct: `${length * breadth}`,
+        distractors: [
+          mistake(`${2 * (length + breadth)}`, 'That is the perimeter. The area is length × breadth.'),
+          mistake(`${length + breadth}`, 'You added the length and breadth. Multiply them to find the area.'),
+          mistake(`${2 * length * breadth}`, 'You doubled the area. Area is just length × breadth.'),
+          mistake(`${length * length}`, 'You squared the length. Only a square has equal sides.')
+        ],
+        hints: [
+          'Area is the space inside, measured in square units.',
+          `Area of a rectangle = length × breadth = ${length} × ${breadth}.`
+        ],
+        explanation: [
+          'Area of a rectangle = length × breadth',
+          `= ${length} × ${breadth} = ${length * breadth} m²`
+        ],
+        figure: rectangleFigure(length, breadth, 'm')
+      };
+    }
+
+    if (random() < 0.5) {
+      // Even base so the area is a whole number
+      const base = randomInt(random, 2, 12) * 2;
+      const height = randomInt(random, 3, 15);
+      return {
+        question: `A triangle has a base of ${base} cm and a height of ${height} cm. What is its area in cm²?`,
+        correct: `${(base * height) / 2}`,
+        distractors: [
+          mistake(`${base * height}`, 'That is the area of the rectangle around the triangle. Halve it.'),
+          mistake(`${base + height}`, 'You added the base and height. Multiply them, then halve.'),
+          mistake(`${(base * height) / 4}`, 'You halved twice. Area = ½ × base × height.'),
+          `${2 * (base + height)}`
+        ],
+        hints: [
+          'A triangle is half of a rectangle with the same base and height.',
+          `Area = ½ × base × height = ½ × ${base} × ${height}.`
+        ],
+        explanation: [
+          'Area of a triangle = ½ × base × height',
+          `= ½ × ${base} × ${height} = ½ × ${base * height}`,
+          `= ${(base * height) / 2} cm²`
+        ],
+        figure: triangleFigure(base, height)
+      };
+    }
+
+    const area = length * breadth;
+    return {
+      question: `A rectangle has an area of ${area} cm² and a length of ${length} cm. What is its perimeter in cm?`,
+      correct: `${2 * (length + breadth)}`,
+      distractors: [
+        mistake(`${breadth}`, 'That is the breadth. Use it to work out the perimeter.'),
+        mistake(`${2 * (area + length)}`, 'You used the area as a side. Find the breadth first: area ÷ length.'),
+        mistake(`${2 * length + breadth}`, 'You left out one of the breadths.'),
+        mistake(`${length + breadth}`, 'You added one length and one breadth. A rectangle has two of each.')
+      ],
+      hints: [
+        'Find the breadth first from the area.',
+        `Breadth = area ÷ length = ${area} ÷ ${length} = ${breadth} cm.`
+      ],
+      explanation: [
+        `Breadth = area ÷ length = ${area} ÷ ${length} = ${breadth} cm`,
+        `Perimeter = 2 × (${length} + ${breadth}) = ${2 * (length + breadth)} cm`
+      ],
+      figure: {
+        kind: 'shapes',
+        width: length,
+        height: breadth,
+        shapes: [
+          { kind: 'polygon', points: [[0, 0], [length, 0], [length, breadth], [0, breadth]], shaded: true },
+          { kind: 'dimension', from: [0, 0], to: [length, 0], label: `${length} cm` },
+          { kind: 'label', at: [length / 2, breadth / 2], text: `Area = ${area} cm²` }
+        ],
+        alt: `A rectangle ${length} cm long with an area of ${area} cm²`
+      }
+    };
+  }
+};
+
+export const questionGenerators: QuestionGenerator[] = [
+  fractions,
+  decimals,
+  integers,
+  linearEquations,
+  lcmHcf,
+  percentages,
+  areaPerimeter
+];
+
+const FRACTION = /^-?\d+\/\d+$/;
+
+// Drafts write fractions as "3/4" so they can be compared by value; inside
+// $...$ math they are shown stacked
+const typesetFractions = (text: string): string =>
+  text.replace(/\$[^$]*\$/g, math => math.replace(/(\d+)\/(\d+)/g, '\\frac{$1}{$2}'));
+
+// The ID holds everything needed to build the same question again, e.g. "gen_fractions_easy_12345"
+const GENERATED_ID = /^gen_([a-z-]+)_(easy|medium|hard)_(\d+)$/;
+
+export const generateQuestion = (generator: QuestionGenerator, difficulty: Difficulty, seed: number): Question => {
+  const random = createRandom(seed);
+  const draft = generator.generate(random, difficulty);
+
+  const distractors: string[] = [];
+  const feedback: Record<string, string> = {};
+  const addDistractor = (candidate: Distractor) => {
+    const answer = typeof candidate === 'string' ? candidate : candidate.answer;
+    if (distractors.length >= OPTION_COUNT - 1) return;
+    if (sameValue(answer, draft.correct) || distractors.some(existing => sameValue(existing, answer))) return;
+    distractors.push(answer);
+    if (typeof candidate !== 'string') feedback[answer] = candidate.feedback;
+  };
+  draft.distractors.forEach(addDistractor);
+  // Common mistakes can land on the same value; fill any gap with near misses
+  for (let step = 1; distractors.length < OPTION_COUNT - 1; step++) {
+    addDistractor(nudge(draft.correct, step));
+    addDistractor(nudge(draft.correct, -step));
+  }
+
+  const options = shuffle([draft.correct, ...distractors], random);
+  const optionFeedback = options.map(option => typesetFractions(feedback[option] ?? ''));
+  return {
+    id: `gen_${generator.id}_${difficulty}_${seed}`,
+    type: 'multiple-choice',
+    subject: 'Math',
+    difficulty,
+    ...generator.curriculum[difficulty],
+    question: typesetFractions(draft.question),
+    options: options.map(option => (FRACTION.test(option) ? typesetFractions(`$${option}$`) : option)),
+    correctAnswer: options.indexOf(draft.correct),
+    ...(optionFeedback.some(Boolean) && { optionFeedback }),
+    hints: draft.hints.map(typesetFractions),
+    explanation: draft.explanation.map(typesetFractions),
+    figure: draft.figure
+  };
+};
+
+// Rebuilds a generated question from its ID, e.g. when a saved hunt is loaded
+export const getGeneratedQuestion = (id: string): Question | undefined => {
+  const match = id.match(GENERATED_ID);
+  if (!match) return undefined;
+  const generator = questionGenerators.find(candidate => candidate.id === match[1]);
+  const difficulty = match[2] as Difficulty;
+  if (!generator || !generator.difficulties.includes(difficulty)) return undefined;
+  return generateQuestion(generator, difficulty, parseInt(match[3], 10) >>> 0);
+};
+
+// Fresh questions from as many different topics as the filter allows
+export const generateQuestions = (
+  difficulty: Difficulty,
+  count: number,
+  random: RandomSource,
+  filter?: QuestionFilter
+): Question[] => {
+  const generators = shuffle(
+    questionGenerators.filter(generator =>
+      generator.difficulties.includes(difficulty) && matchesFilter(generator.curriculum[difficulty], filter)
+    ),
+    random
+  );
+  if (generators.length === 0) return [];
+  return Array.from({ length: count }, (_, index) =>
+    generateQuestion(generators[index % generators.length], difficulty, Math.floor(random() * 0x100000000) >>> 0)
+  );
+};
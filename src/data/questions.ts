@@ -0,0 +1,832 @@
+import { Question, QuestionFilter, QuestionPack } from '../types/game';
+import { RandomSource, shuffle } from '../utils/random';
+import { generateQuestions, getGeneratedQuestion, questionGenerators } from './questionGenerators';
+import { matchesFilter } from './curriculum';
+
+export const questionBank: Question[] = [
+  // Class 6 Mathematics - Fractions
+  {
+    id: 'math_6_frac_001',
+    type: 'multiple-choice',
+    subject: 'Math',
+    difficulty: 'easy',
+    grade: 6,
+    chapter: 'Fractions',
+    topic: 'Adding fractions',
+    learningOutcome: 'M6.7.2',
+    question: 'What is $\\frac{3}{4} + \\frac{1}{4}$?',
+    options: ['$1$', '$\\frac{4}{8}$', '$\\frac{4}{4}$', '$\\frac{1}{2}$'],
+    correctAnswer: 0,
+    optionFeedback: [
+      '',
+      'You added the denominators too. When the denominators are the same, only the numerators are added.',
+      'Right value, but $\\frac{4}{4}$ simplifies to a whole number.',
+      'You subtracted the numerators instead of adding them.'
+    ],
+    hints: [
+      'The denominators are the same, so only the numerators need adding.',
+      '$\\frac{3}{4} + \\frac{1}{4} = \\frac{3 + 1}{4}$. What is a fraction with the same top and bottom?'
+    ],
+    explanation: [
+      'The denominators are the same, so add the numerators and keep the denominator.',
+      '$\\frac{3}{4} + \\frac{1}{4} = \\frac{3 + 1}{4} = \\frac{4}{4}$',
+      '$\\frac{4}{4} = 1$'
+    ]
+  },
+  {
+    id: 'math_6_frac_002',
+    type: 'multiple-choice',
+    subject: 'Math',
+    difficulty: 'easy',
+    grade: 6,
+    chapter: 'Fractions',
+    topic: 'Equivalent fractions',
+    learningOutcome: 'M6.7.1',
+    question: 'Which fraction is equivalent to $\\frac{2}{6}$?',
+    options: ['$\\frac{1}{3}$', '$\\frac{2}{3}$', '$\\frac{4}{6}$', '$\\frac{3}{9}$'],
+    correctAnswer: 0,
+    optionFeedback: [
+      '',
+      'You divided only the denominator. Divide the numerator and the denominator by the same number.',
+      'You doubled the numerator but not the denominator.',
+      'You added 1 to the top and 3 to the bottom. Equivalent fractions multiply both by the same number.'
+    ],
+    hints: [
+      'Equivalent fractions come from dividing the top and bottom by the same number.',
+      'Both 2 and 6 divide by 2.'
+    ],
+    explanation: '$\\frac{2}{6} = \\frac{1}{3}$ when simplified by dividing both numerator and denominator by their GCD, which is 2.'
+  },
+  
+  // Class 6 Mathematics - Decimals
+  {
+    id: 'math_6_dec_001',
+    type: 'multiple-choice',
+    subject: 'Math',
+    difficulty: 'easy',
+    grade: 6,
+    chapter: 'Decimals',
+    topic: 'Adding decimals',
+    learningOutcome: 'M6.8.2',
+    question: 'What is 0.5 + 0.3?',
+    options: ['0.8', '0.53', '8', '5.3'],
+    correctAnswer: 0,
+    optionFeedback: [
+      '',
+      'You wrote the digits side by side instead of adding the tenths.',
+      'You lost the decimal point. 5 tenths + 3 tenths is 8 tenths.',
+      'You wrote the digits side by side and moved the decimal point.'
+    ],
+    hints: [
+      'Line up the decimal points and add the tenths.',
+      '5 tenths + 3 tenths = 8 tenths.'
+    ],
+    explanation: '0.5 + 0.3 = 0.8. When adding decimals, align the decimal points and add normally.'
+  },
+  {
+    id: 'math_6_dec_002',
+    type: 'multiple-choice',
+    subject: 'Math',
+    difficulty: 'medium',
+    grade: 6,
+    chapter: 'Decimals',
+    topic: 'Fractions as decimals',
+    learningOutcome: 'M6.8.1',
+    question: 'Convert $\\frac{3}{5}$ to decimal form.',
+    options: ['0.6', '0.35', '0.53', '0.65'],
+    correctAnswer: 0,
+    optionFeedback: [
+      '',
+      'You wrote the numerator and denominator after a decimal point. Divide 3 by 5 instead.',
+      'You wrote the denominator and numerator after a decimal point. Divide 3 by 5 instead.',
+      'Divide 3 by 5, or write $\\frac{3}{5}$ as $\\frac{6}{10}$.'
+    ],
+    hints: [
+      'A fraction bar means divide.',
+      'Work out $3 \\div 5$, or rewrite $\\frac{3}{5}$ with 10 as the denominator.'
+    ],
+    explanation: '$\\frac{3}{5} = 3 \\div 5 = 0.6$. To convert a fraction to decimal, divide the numerator by the denominator.'
+  },
+
+  // Class 7 Mathematics - Algebra
+  {
+    id: 'math_7_alg_001',
+    type: 'multiple-choice',
+    subject: 'Math',
+    difficulty: 'medium',
+    grade: 7,
+    chapter: 'Algebraic Expressions',
+    topic: 'Value of an expression',
+    learningOutcome: 'M7.12.1',
+    question: 'If $x = 5$, what is the value of $3x + 2$?',
+    options: ['17', '15', '13', '10'],
+    correctAnswer: 0,
+    optionFeedback: [
+      '',
+      'You worked out $3x = 15$ but left out the $+ 2$.',
+      'You subtracted 2 instead of adding it.',
+      'Put 5 in place of $x$: $3 \\times 5 + 2$.'
+    ],
+    hints: [
+      'Put 5 in place of $x$.',
+      '$3x$ means $3 \\times 5$; add 2 to that.'
+    ],
+    explanation: [
+      'Substitute $x = 5$: $3x + 2 = 3(5) + 2$',
+      'Multiply first: $3(5) = 15$',
+      'Then add: $15 + 2 = 17$'
+    ]
+  },
+  {
+    id: 'math_7_alg_002',
+    type: 'multiple-choice',
+    subject: 'Math',
+    difficulty: 'medium',
+    grade: 7,
+    chapter: 'Algebraic Expressions',
+    topic: 'Like terms',
+    learningOutcome: 'M7.12.1',
+    question: 'Simplify: $5a + 3a - 2a$',
+    options: ['$6a$', '$10a$', '$8a$', '$3a$'],
+    correctAnswer: 0,
+    optionFeedback: [
+      '',
+      'You added the $2a$ instead of subtracting it.',
+      'You added $5a$ and $3a$ but left out the $- 2a$.',
+      'You took $2a$ away from $5a$ but left out the $+ 3a$.'
+    ],
+    hints: [
+      'All three terms are like terms, because they all have $a$.',
+      'Combine the numbers in front: $5 + 3 - 2$.'
+    ],
+    explanation: [
+      'All three are like terms, so combine their coefficients: $5a + 3a - 2a = (5 + 3 - 2)a$',
+      '$5 + 3 - 2 = 6$, so the answer is $6a$'
+    ]
+  },
+
+  // Class 7 Mathematics - Geometry
+  {
+    id: 'math_7_geo_001',
+    type: 'multiple-choice',
+    subject: 'Math',
+    difficulty: 'medium',
+    grade: 7,
+    chapter: 'The Triangle and its Properties',
+    topic: 'Angle sum property',
+    learningOutcome: 'M7.6.1',
+    question: 'What is the sum of angles in a triangle?',
+    options: ['180°', '360°', '90°', '270°'],
+    correctAnswer: 0,
+    optionFeedback: [
+      '',
+      '360° is the sum of the angles of a quadrilateral.',
+      '90° is one right angle, not the sum of all three angles.',
+      '270° is three right angles. The angles of a triangle add up to less than that.'
+    ],
+    hints: [
+      'Tear the three corners off a paper triangle and put them together. What do they make?',
+      'The three corners line up along a straight line.'
+    ],
+    explanation: 'The sum of all interior angles in any triangle is always 180°. This is a fundamental property of triangles.'
+  },
+  {
+    id: 'math_7_geo_002',
+    type: 'multiple-choice',
+    subject: 'Math',
+    difficulty: 'medium',
+    grade: 7,
+    chapter: 'The Triangle and its Properties',
+    topic: 'Angle sum property',
+    learningOutcome: 'M7.6.1',
+    question: 'If two angles of a triangle are 60° and 70°, what is the third angle?',
+    options: ['50°', '60°', '40°', '30°'],
+    correctAnswer: 0,
+    optionFeedback: [
+      '',
+      'You repeated one of the given angles. Take both away from 180°.',
+      'Check the subtraction: 180° - 130°.',
+      'Check the subtraction: 180° - 130°.'
+    ],
+    hints: [
+      'The three angles of a triangle always add up to the same total.',
+      'The total is 180°, and the two angles you know add up to 130°.'
+    ],
+    explanation: [
+      'The angles of a triangle add up to 180°.',
+      'The two angles given add up to 60° + 70° = 130°',
+      'Third angle = 180° - 130° = 50°'
+    ],
+    figure: {
+      kind: 'shapes',
+      width: 10,
+      height: 10.6,
+      shapes: [
+        { kind: 'polygon', points: [[0, 10.6], [6.1, 0], [10, 10.6]], shaded: true },
+        { kind: 'angle', vertex: [0, 10.6], from: [10, 10.6], to: [6.1, 0], label: '60°' },
+        { kind: 'angle', vertex: [10, 10.6], from: [6.1, 0], to: [0, 10.6], label: '70°' },
+        { kind: 'angle', vertex: [6.1, 0], from: [0, 10.6], to: [10, 10.6], label: '?' }
+      ],
+      alt: 'A triangle with two angles marked 60° and 70°, and the third angle marked with a question mark'
+    }
+  },
+
+  // Class 8 Mathematics - Mensuration
+  {
+    id: 'math_8_men_001',
+    type: 'multiple-choice',
+    subject: 'Math',
+    difficulty: 'hard',
+    grade: 8,
+    chapter: 'Mensuration',
+    topic: 'Area of plane figures',
+    learningOutcome: 'M8.11.1',
+    question: 'Find the area of a rectangle with length 8 cm and breadth 5 cm.',
+    options: ['40 cm²', '26 cm²', '13 cm²', '45 cm²'],
+    correctAnswer: 0,
+    optionFeedback: [
+      '',
+      'That is the perimeter. The area is length × breadth.',
+      'You added the length and breadth. Multiply them to find the area.',
+      'Check the multiplication: 8 × 5.'
+    ],
+    hints: [
+      'Area measures the space inside the rectangle.',
+      'Area of a rectangle = length × breadth = 8 × 5.'
+    ],
+    explanation: [
+      'Area of a rectangle = length × breadth',
+      '= 8 × 5 = 40 cm²'
+    ],
+    figure: {
+      kind: 'shapes',
+      width: 8,
+      height: 5,
+      shapes: [
+        { kind: 'polygon', points: [[0, 0], [8, 0], [8, 5], [0, 5]], shaded: true },
+        { kind: 'dimension', from: [0, 0], to: [8, 0], label: '8 cm' },
+        { kind: 'dimension', from: [8, 0], to: [8, 5], label: '5 cm' }
+      ],
+      alt: 'A rectangle 8 cm long and 5 cm wide'
+    }
+  },
+  {
+    id: 'math_8_men_002',
+    type: 'multiple-choice',
+    subject: 'Math',
+    difficulty: 'hard',
+    grade: 8,
+    chapter: 'Mensuration',
+    topic: 'Perimeter',
+    learningOutcome: 'M8.11.1',
+    question: 'What is the perimeter of a square with side 6 cm?',
+    options: ['24 cm', '36 cm', '12 cm', '18 cm'],
+    correctAnswer: 0,
+    optionFeedback: [
+      '',
+      'That is the area. The perimeter is the distance all the way around.',
+      'You added only two sides. A square has four.',
+      'You added only three sides. A square has four.'
+    ],
+    hints: [
+      'A square has four equal sides.',
+      'Perimeter of a square = 4 × side = 4 × 6.'
+    ],
+    explanation: [
+      'A square has four equal sides, so its perimeter = 4 × side',
+      '= 4 × 6 = 24 cm'
+    ],
+    figure: {
+      kind: 'shapes',
+      width: 6,
+      height: 6,
+      shapes: [
+        { kind: 'polygon', points: [[0, 0], [6, 0], [6, 6], [0, 6]], shaded: true },
+        { kind: 'dimension', from: [0, 0], to: [6, 0], label: '6 cm' },
+        { kind: 'angle', vertex: [0, 6], from: [0, 0], to: [6, 6], right: true },
+        { kind: 'angle', vertex: [6, 0], from: [6, 6], to: [0, 0], right: true }
+      ],
+      alt: 'A square with a side of 6 cm'
+    }
+  },
+
+  // Class 8 Mathematics - Data Handling
+  {
+    id: 'math_8_data_001',
+    type: 'multiple-choice',
+    subject: 'Math',
+    difficulty: 'medium',
+    grade: 8,
+    chapter: 'Data Handling',
+    topic: 'Mean',
+    learningOutcome: 'M8.5.1',
+    question: 'Find the mean of: 10, 15, 20, 25, 30',
+    options: ['20', '25', '15', '30'],
+    correctAnswer: 0,
+    optionFeedback: [
+      '',
+      'Add all five values, then divide by how many there are.',
+      'Add all five values, then divide by how many there are.',
+      'That is the largest value, not the mean.'
+    ],
+    hints: [
+      'The mean shares the total out equally.',
+      'The five values add up to 100. Divide by how many values there are.'
+    ],
+    explanation: [
+      'Mean = sum of the values ÷ number of values',
+      'Sum: 10 + 15 + 20 + 25 + 30 = 100',
+      'There are 5 values, so the mean = 100 ÷ 5 = 20'
+    ]
+  },
+  {
+    id: 'math_8_data_002',
+    type: 'multiple-choice',
+    subject: 'Math',
+    difficulty: 'medium',
+    grade: 8,
+    chapter: 'Data Handling',
+    topic: 'Median',
+    learningOutcome: 'M8.5.1',
+    question: 'What is the median of: 3, 7, 9, 12, 15?',
+    options: ['9', '7', '12', '10'],
+    correctAnswer: 0,
+    optionFeedback: [
+      '',
+      'That is the second value. The median is the middle one.',
+      'That is the fourth value. The median is the middle one.',
+      'The median is the middle value once the list is in order, not an average.'
+    ],
+    hints: [
+      'The median is the value in the middle once the data is in order.',
+      'These 5 values are already in order, so look at the 3rd one.'
+    ],
+    explanation: [
+      'Put the values in order: 3, 7, 9, 12, 15',
+      'There are 5 values, so the middle one is the 3rd.',
+      'The median is 9.'
+    ]
+  },
+  {
+    id: 'math_8_data_003',
+    type: 'numeric',
+    subject: 'Math',
+    difficulty: 'medium',
+    grade: 8,
+    chapter: 'Data Handling',
+    topic: 'Bar graphs',
+    learningOutcome: 'M8.5.1',
+    question: 'The bar graph shows how many books five friends read in a month. How many more books did Meera read than Arjun?',
+    answer: '5',
+    hints: [
+      'Read the height of each bar against the scale on the left.',
+      'Meera\'s bar reaches 9 and Arjun\'s reaches 4.'
+    ],
+    explanation: [
+      'Read the bars: Meera read 9 books and Arjun read 4 books.',
+      'Meera read 9 - 4 = 5 more books.'
+    ],
+    figure: {
+      kind: 'bar-graph',
+      bars: [
+        { label: 'Arjun', value: 4 },
+        { label: 'Meera', value: 9 },
+        { label: 'Kabir', value: 6 },
+        { label: 'Riya', value: 7 },
+        { label: 'Sam', value: 3 }
+      ],
+      step: 1,
+      xLabel: 'Friend',
+      yLabel: 'Books read',
+      alt: 'Bar graph of books read: Arjun 4, Meera 9, Kabir 6, Riya 7, Sam 3'
+    }
+  },
+
+  // Class 6 Mathematics - Basic Operations
+  {
+    id: 'math_6_basic_001',
+    type: 'multiple-choice',
+    subject: 'Math',
+    difficulty: 'easy',
+    grade: 6,
+    chapter: 'Whole Numbers',
+    topic: 'Division',
+    learningOutcome: 'M6.2.1',
+    question: 'What is 144 ÷ 12?',
+    options: ['12', '10', '14', '16'],
+    correctAnswer: 0,
+    optionFeedback: [
+      '',
+      'Check: 10 × 12 = 120, not 144.',
+      'Check: 14 × 12 = 168, not 144.',
+      'Check: 16 × 12 = 192, not 144.'
+    ],
+    hints: [
+      'Think of a number that multiplies by 12 to give 144.',
+      '$12 \\times 10 = 120$, and 24 more is two more twelves.'
+    ],
+    explanation: '144 ÷ 12 = 12. You can verify: 12 × 12 = 144.'
+  },
+  {
+    id: 'math_6_basic_002',
+    type: 'multiple-choice',
+    subject: 'Math',
+    difficulty: 'easy',
+    grade: 6,
+    chapter: 'Playing with Numbers',
+    topic: 'LCM',
+    learningOutcome: 'M6.3.2',
+    question: 'Find the LCM of 4 and 6.',
+    options: ['12', '24', '8', '10'],
+    correctAnswer: 0,
+    optionFeedback: [
+      '',
+      '24 is a common multiple of 4 and 6, but not the lowest one.',
+      '8 is a multiple of 4 but not of 6.',
+      'You added 4 and 6. The LCM is the lowest number both divide into.'
+    ],
+    hints: [
+      'The LCM is the smallest number in both times tables.',
+      'Multiples of 4: 4, 8, 12, 16… Multiples of 6: 6, 12, 18…'
+    ],
+    explanation: [
+      'List the multiples of 4: 4, 8, 12, 16, ...',
+      'List the multiples of 6: 6, 12, 18, ...',
+      'The smallest number in both lists is 12, so the LCM is 12.'
+    ]
+  },
+
+  // Class 7 Mathematics - Integers
+  {
+    id: 'math_7_int_001',
+    type: 'multiple-choice',
+    subject: 'Math',
+    difficulty: 'medium',
+    grade: 7,
+    chapter: 'Integers',
+    topic: 'Adding integers',
+    learningOutcome: 'M7.1.1',
+    question: 'What is $(-5) + (+3)$?',
+    options: ['-2', '+2', '-8', '+8'],
+    correctAnswer: 0,
+    optionFeedback: [
+      '',
+      'Right size, wrong sign. The larger number, -5, is negative.',
+      'You added the sizes and kept the minus sign. The signs are different, so subtract the sizes.',
+      'You added the sizes. The signs are different, so subtract them.'
+    ],
+    hints: [
+      'The signs are different, so the numbers pull in opposite directions.',
+      'Start at -5 on the number line and move 3 steps to the right.'
+    ],
+    explanation: [
+      'The signs are different, so subtract the sizes: $5 - 3 = 2$',
+      '$-5$ has the larger size, so the answer is negative: $(-5) + (+3) = -2$'
+    ]
+  },
+  {
+    id: 'math_7_int_002',
+    type: 'multiple-choice',
+    subject: 'Math',
+    difficulty: 'medium',
+    grade: 7,
+    chapter: 'Integers',
+    topic: 'Multiplying integers',
+    learningOutcome: 'M7.1.2',
+    question: 'What is (-4) × (-6)?',
+    options: ['+24', '-24', '+10', '-10'],
+    correctAnswer: 0,
+    optionFeedback: [
+      '',
+      'Two negative numbers multiply to give a positive number.',
+      'You added the numbers instead of multiplying them.',
+      'You added the numbers instead of multiplying them.'
+    ],
+    hints: [
+      'Multiply 4 by 6 first, then decide the sign.',
+      'Two negative numbers multiply to give a positive number.'
+    ],
+    explanation: '(-4) × (-6) = +24. When multiplying two negative integers, the result is positive.'
+  },
+
+  // Typed answers
+  {
+    id: 'math_6_frac_003',
+    type: 'numeric',
+    subject: 'Math',
+    difficulty: 'easy',
+    grade: 6,
+    chapter: 'Fractions',
+    topic: 'Adding fractions',
+    learningOutcome: 'M6.7.2',
+    question: 'What is $\\frac{3}{4} + \\frac{1}{8}$? Write your answer as a fraction or a decimal.',
+    answer: '7/8',
+    hints: [
+      'Make the denominators the same before adding.',
+      '$\\frac{3}{4} = \\frac{6}{8}$'
+    ],
+    explanation: [
+      'Make the denominators the same: $\\frac{3}{4} = \\frac{6}{8}$',
+      '$\\frac{6}{8} + \\frac{1}{8} = \\frac{7}{8}$ (or 0.875)'
+    ]
+  },
+  {
+    id: 'math_6_dec_003',
+    type: 'numeric',
+    subject: 'Math',
+    difficulty: 'easy',
+    grade: 6,
+    chapter: 'Decimals',
+    topic: 'Adding decimals',
+    learningOutcome: 'M6.8.2',
+    question: 'What is 1.2 + 0.45?',
+    answer: '1.65',
+    hints: [
+      'Line up the decimal points.',
+      'Write 1.2 as 1.20 so both numbers have two decimal places.'
+    ],
+    explanation: 'Line up the decimal points: 1.20 + 0.45 = 1.65.'
+  },
+  {
+    id: 'math_6_frac_004',
+    type: 'numeric',
+    subject: 'Math',
+    difficulty: 'medium',
+    grade: 6,
+    chapter: 'Fractions',
+    topic: 'Simplest form',
+    learningOutcome: 'M6.7.1',
+    question: 'Write $\\frac{18}{24}$ in its simplest form.',
+    answer: '3/4',
+    acceptUnreduced: false,
+    hints: [
+      'Divide the top and bottom by the same number until you can\'t go further.',
+      'The HCF of 18 and 24 is 6.'
+    ],
+    explanation: [
+      'The HCF of 18 and 24 is 6.',
+      'Divide the numerator and denominator by 6: $\\frac{18}{24} = \\frac{3}{4}$'
+    ]
+  },
+  {
+    id: 'math_8_men_003',
+    type: 'numeric',
+    subject: 'Math',
+    difficulty: 'medium',
+    grade: 8,
+    chapter: 'Mensuration',
+    topic: 'Area of plane figures',
+    learningOutcome: 'M8.11.1',
+    question: 'A rectangular garden is 12 m long and 7.5 m wide. What is its area?',
+    answer: '90',
+    unit: 'm²',
+    hints: [
+      'Area of a rectangle = length × breadth.',
+      '$12 \\times 7.5$ is the same as $12 \\times 7 + 12 \\times 0.5$.'
+    ],
+    explanation: 'Area of a rectangle = length × breadth = 12 × 7.5 = 90 m².'
+  },
+  {
+    id: 'math_7_alg_003',
+    type: 'numeric',
+    subject: 'Math',
+    difficulty: 'hard',
+    grade: 7,
+    chapter: 'Simple Equations',
+    topic: 'Solving equations',
+    learningOutcome: 'M7.4.1',
+    question: 'Solve for $x$: $3x - 7 = 11$',
+    answer: '6',
+    hints: [
+      'Undo the - 7 first, then the × 3.',
+      'Add 7 to both sides: $3x = 18$.'
+    ],
+    explanation: [
+      'Add 7 to both sides: $3x = 18$',
+      'Divide both sides by 3: $x = 6$'
+    ]
+  },
+  {
+    id: 'math_8_men_004',
+    type: 'numeric',
+    subject: 'Math',
+    difficulty: 'hard',
+    grade: 8,
+    chapter: 'Mensuration',
+    topic: 'Circles',
+    learningOutcome: 'M8.11.1',
+    question: 'What is the circumference of a circle with radius 7 cm? Use $\\pi = \\frac{22}{7}$.',
+    answer: '44',
+    tolerance: 0.01,
+    unit: 'cm',
+    hints: [
+      'Circumference $= 2\\pi r$.',
+      '$2 \\times \\frac{22}{7} \\times 7$: the 7s cancel.'
+    ],
+    explanation: [
+      'Circumference $= 2\\pi r$',
+      '$= 2 \\times \\frac{22}{7} \\times 7$',
+      '$= 44$ cm'
+    ],
+    figure: {
+      kind: 'shapes',
+      width: 14,
+      height: 14,
+      shapes: [
+        { kind: 'circle', center: [7, 7], radius: 7, shaded: true },
+        { kind: 'segment', from: [7, 7], to: [14, 7], label: '7 cm' },
+        { kind: 'label', at: [6.3, 7.6], text: 'O' }
+      ],
+      alt: 'A circle with centre O and a radius of 7 cm'
+    }
+  },
+
+  // Pick all, arrange and match
+  {
+    id: 'math_6_basic_003',
+    type: 'multi-select',
+    subject: 'Math',
+    difficulty: 'easy',
+    grade: 6,
+    chapter: 'Playing with Numbers',
+    topic: 'Prime numbers',
+    learningOutcome: 'M6.3.3',
+    question: 'Select all the prime numbers.',
+    options: ['2', '9', '13', '21', '29'],
+    correctAnswers: [0, 2, 4],
+    optionFeedback: [
+      '',
+      '9 = 3 × 3, so it has more than two factors.',
+      '',
+      '21 = 3 × 7, so it has more than two factors.',
+      ''
+    ],
+    hints: [
+      'A prime number has exactly two factors: 1 and itself.',
+      '9 and 21 both divide by 3.'
+    ],
+    explanation: '2, 13 and 29 have exactly two factors: 1 and themselves. 9 = 3 × 3 and 21 = 3 × 7 are composite.'
+  },
+  {
+    id: 'math_7_geo_003',
+    type: 'multi-select',
+    subject: 'Math',
+    difficulty: 'medium',
+    grade: 7,
+    chapter: 'The Triangle and its Properties',
+    topic: 'Properties of triangles',
+    learningOutcome: 'M7.6.1',
+    question: 'Which of these statements about triangles are true?',
+    options: [
+      'The angles of a triangle add up to 180°',
+      'A triangle can have two right angles',
+      'An equilateral triangle has three equal angles',
+      'The exterior angle equals the sum of the two interior opposite angles'
+    ],
+    correctAnswers: [0, 2, 3],
+    optionFeedback: [
+      '',
+      'Two right angles already add up to 180°, leaving nothing for the third angle.',
+      '',
+      ''
+    ],
+    hints: [
+      'Check each statement against the angle sum of 180°.',
+      'Two right angles already add up to 180°.'
+    ],
+    explanation: 'Two right angles already add up to 180°, leaving nothing for the third angle, so a triangle can have at most one right angle. The other three statements are true.'
+  },
+  {
+    id: 'math_6_dec_004',
+    type: 'ordering',
+    subject: 'Math',
+    difficulty: 'easy',
+    grade: 6,
+    chapter: 'Decimals',
+    topic: 'Comparing decimals',
+    learningOutcome: 'M6.8.2',
+    question: 'Arrange these numbers in ascending order.',
+    items: ['0.05', '0.4', '0.45', '1.2', '1.25'],
+    hints: [
+      'Compare the whole number parts first.',
+      'Write every number with two decimal places: 0.40, 0.05, 1.20, …'
+    ],
+    explanation: 'Compare the whole number part first, then the tenths, then the hundredths: 0.05 < 0.4 < 0.45 < 1.2 < 1.25.'
+  },
+  {
+    id: 'math_7_int_003',
+    type: 'ordering',
+    subject: 'Math',
+    difficulty: 'medium',
+    grade: 7,
+    chapter: 'Integers',
+    topic: 'Comparing integers',
+    learningOutcome: 'M7.1.1',
+    question: 'Arrange these integers from smallest to largest.',
+    items: ['-12', '-7', '-3', '0', '5', '8'],
+    hints: [
+      'Picture the numbers on a number line; smaller numbers are further left.',
+      'Among negative numbers, the bigger the number after the minus sign, the smaller the integer.'
+    ],
+    explanation: 'On the number line, numbers further left are smaller. The larger the number after a minus sign, the smaller the integer, so -12 < -7 < -3 < 0 < 5 < 8.'
+  },
+  {
+    id: 'math_6_frac_005',
+    type: 'matching',
+    subject: 'Math',
+    difficulty: 'medium',
+    grade: 6,
+    chapter: 'Decimals',
+    topic: 'Fractions as decimals',
+    learningOutcome: 'M6.8.1',
+    question: 'Match each fraction to the equal decimal.',
+    pairs: [
+      { left: '$\\frac{1}{2}$', right: '0.5' },
+      { left: '$\\frac{1}{4}$', right: '0.25' },
+      { left: '$\\frac{3}{5}$', right: '0.6' },
+      { left: '$\\frac{1}{8}$', right: '0.125' }
+    ],
+    hints: [
+      'Divide each numerator by its denominator.',
+      '$1 \\div 2 = 0.5$; halve it again for $\\frac{1}{4}$.'
+    ],
+    explanation: 'Divide the numerator by the denominator: 1 ÷ 2 = 0.5, 1 ÷ 4 = 0.25, 3 ÷ 5 = 0.6 and 1 ÷ 8 = 0.125.'
+  },
+  {
+    id: 'math_8_men_005',
+    type: 'matching',
+    subject: 'Math',
+    difficulty: 'hard',
+    grade: 8,
+    chapter: 'Mensuration',
+    topic: 'Area formulas',
+    learningOutcome: 'M8.11.1',
+    question: 'Match each shape to the formula for its area.',
+    pairs: [
+      { left: 'Trapezium', right: '$\\frac{1}{2}(a + b)h$' },
+      { left: 'Parallelogram', right: '$b \\times h$' },
+      { left: 'Rhombus', right: '$\\frac{1}{2} d_{1} d_{2}$' },
+      { left: 'Circle', right: '$\\pi r^{2}$' }
+    ],
+    hints: [
+      'Think about how each shape can be cut up and rearranged.',
+      'A parallelogram rearranges into a rectangle, so its area is base × height.'
+    ],
+    explanation: 'A trapezium averages its parallel sides, a parallelogram is base × height, a rhombus is half the product of its diagonals and a circle is $\\pi r^{2}$.'
+  }
+];
+
+// Questions from the teachers' packs loaded on this device, alongside the built-in bank
+let packQuestions: Question[] = [];
+
+export const installQuestionPacks = (packs: QuestionPack[]) => {
+  packQuestions = packs.flatMap(pack => pack.questions);
+};
+
+const activeQuestions = (): Question[] => [...questionBank, ...packQuestions];
+
+export const getRandomQuestions = (
+  count: number = 8,
+  random: RandomSource = Math.random,
+  filter?: QuestionFilter
+): Question[] => {
+  return shuffle(activeQuestions().filter(q => matchesFilter(q, filter)), random).slice(0, count);
+};
+
+export const getQuestionsByDifficulty = (
+  difficulty: 'easy' | 'medium' | 'hard',
+  count: number = 3,
+  random: RandomSource = Math.random,
+  filter?: QuestionFilter
+): Question[] => {
+  const filtered = activeQuestions().filter(q => q.difficulty === difficulty && matchesFilter(q, filter));
+  return shuffle(filtered, random).slice(0, count);
+};
+
+export const getQuestionById = (id: string): Question | undefined =>
+  activeQuestions().find(q => q.id === id) ?? getGeneratedQuestion(id);
+
+// Half hand-written, half generated, so hunts don't repeat after a couple of sessions.
+// A narrow filter can leave fewer questions than asked for.
+export const getMixedQuestions = (
+  difficulty: 'easy' | 'medium' | 'hard',
+  count: number,
+  random: RandomSource = Math.random,
+  filter?: QuestionFilter
+): Question[] => {
+  const written = getQuestionsByDifficulty(difficulty, Math.ceil(count / 2), random, filter);
+  const generated = generateQuestions(difficulty, count - written.length, random, filter);
+  // No generator covers the filter, so use every written question there is
+  const topUp = generated.length === 0 && written.length < count
+    ? getQuestionsByDifficulty(difficulty, count, random, filter).filter(q => !written.includes(q)).slice(0, count - written.length)
+    : [];
+  return shuffle([...written, ...generated, ...topUp], random);
+};
+
+// How many different questions a hunt can draw at this difficulty; endless when a generator covers the filter
+export const countQuestions = (difficulty: 'easy' | 'medium' | 'hard', filter?: QuestionFilter): number =>
+  questionGenerators.some(generator =>
+    generator.difficulties.includes(difficulty) && matchesFilter(generator.curriculum[difficulty], filter)
+  )
+    ? Infinity
+    : activeQuestions().filter(q => q.difficulty === difficulty && matchesFilter(q, filter)).length;
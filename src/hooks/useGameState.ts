@@ -1,6 +1,16 @@
-import { useState, useCallback, useEffect } from 'react';
-import { GameState, Player, TreasureBox, Question } from '../types/game';
-import { getRandomQuestions, getQuestionsByDifficulty } from '../data/questions';
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { Environment, GameState, HuntConfig, Player, Question, QuestionResponse, ReviewItem, SkillEstimates } from '../types/game';
+import { getNextEnvironment } from '../data/environments';
+import { generateSeed, hashSeed } from '../utils/random';
+import { createHuntBoxes, getChestElevation, getCoinsForDifficulty, getHintCost, getHintRewardShare, getOpenBox, huntFilter } from '../utils/hunt';
+import { parseWorldCode } from '../utils/worldCode';
+import { saveGame } from '../utils/saveGame';
+import { gradeResponse } from '../utils/grading';
+import { chooseAdaptiveQuestion, loadSkills, saveSkills, updateSkill } from '../utils/adaptive';
+import { dueReviewQuestions, loadReviewQueue, recordReview, saveReviewQueue } from '../utils/reviewQueue';
+import { logMisconceptions, saveMisconceptions } from '../utils/misconceptionLog';
+import { createAttemptId, recordAttempt, replaceAttempts } from '../utils/attemptHistory';
+import { LearningRecords } from '../utils/saveExport';
 
 const INITIAL_PLAYER: Player = {
   x: 0,
@@ -11,68 +21,6 @@ const INITIAL_PLAYER: Player = {
   completedBoxes: []
 };
 
-const createTreasureBoxes = (questions: Question[]): TreasureBox[] => {
-  // Generate strategic positions based on difficulty
-  const positions: { x: number; y: number }[] = [];
-  
-  // Sort questions by difficulty for strategic placement
-  const sortedQuestions = [...questions].sort((a, b) => {
-    const difficultyOrder = { easy: 0, medium: 1, hard: 2 };
-    return difficultyOrder[a.difficulty] - difficultyOrder[b.difficulty];
-  });
-  
-  for (let i = 0; i < sortedQuestions.length; i++) {
-    let x, y, tooClose;
-    const difficulty = sortedQuestions[i].difficulty;
-    
-    do {
-      // Place easier treasures closer to spawn, harder ones further away
-      let minDistance, maxDistance;
-      if (difficulty === 'easy') {
-        minDistance = 25;
-        maxDistance = 80;
-      } else if (difficulty === 'medium') {
-        minDistance = 60;
-        maxDistance = 140;
-      } else {
-        minDistance = 100;
-        maxDistance = 180;
-      }
-      
-      const angle = Math.random() * Math.PI * 2;
-      const distance = minDistance + Math.random() * (maxDistance - minDistance);
-      x = Math.cos(angle) * distance;
-      y = Math.sin(angle) * distance;
-      
-      // Check if too close to existing positions
-      tooClose = positions.some(pos => 
-        Math.sqrt(Math.pow(x - pos.x, 2) + Math.pow(y - pos.y, 2)) < 30
-      );
-    } while (tooClose);
-    
-    positions.push({ x, y });
-  }
-
-  return sortedQuestions.map((question, index) => ({
-    id: `box_${index + 1}`,
-    x: positions[index].x,
-    y: positions[index].y,
-    question,
-    isUnlocked: index === 0, // First box is unlocked
-    isCompleted: false,
-    coins: getCoinsForDifficulty(question.difficulty) + (index * 25) // Progressive rewards
-  }));
-};
-
-const getCoinsForDifficulty = (difficulty: string): number => {
-  switch (difficulty) {
-    case 'easy': return 50;
-    case 'medium': return 100;
-    case 'hard': return 200;
-    default: return 50;
-  }
-};
-
 const getXPForDifficulty = (difficulty: string): number => {
   switch (difficulty) {
     case 'easy': return 75;
@@ -93,62 +41,48 @@ const getXPRequiredForNextLevel = (currentLevel: number): number => {
   return 500 + (currentLevel - 1) * 750;
 };
 
-export const useGameState = () => {
-  const [gameState, setGameState] = useState<GameState>(() => {
-    // Create a balanced mix of questions
-    const easyQuestions = getQuestionsByDifficulty('easy', 4);
-    const mediumQuestions = getQuestionsByDifficulty('medium', 3);
-    const hardQuestions = getQuestionsByDifficulty('hard', 2);
-    const allQuestions = [...easyQuestions, ...mediumQuestions, ...hardQuestions];
-    
-    const treasureBoxes = createTreasureBoxes(allQuestions);
-    
-    return {
-      player: INITIAL_PLAYER,
-      treasureBoxes,
-      currentEnvironment: 'jungle',
-      isQuestionModalOpen: false,
-      currentQuestion: null,
-      attempts: 0,
-      hintsEnabled: true
-    };
-  });
+// Lays out the first world of a hunt set up on the start screen
+export const createNewGame = (config: HuntConfig, environment: Environment, reviewQuestions: Question[] = []): GameState => {
+  const seed = generateSeed();
+  const treasureBoxes = createHuntBoxes(seed, config, reviewQuestions);
 
-  // Save game state to localStorage with enhanced data
+  return {
+    player: INITIAL_PLAYER,
+    treasureBoxes,
+    currentEnvironment: environment,
+    seed,
+    config,
+    isQuestionModalOpen: false,
+    currentQuestion: null,
+    attempts: 0,
+    bestScore: 0,
+    hintsEnabled: true
+  };
+};
+
+// Plays a game that was loaded from the profile's save or just created on the start screen
+export const useGameState = (profileId: string, initialState: GameState) => {
+  const [gameState, setGameState] = useState<GameState>(initialState);
+  // The student's ratings outlive any one hunt, so they are kept apart from the save
+  const [skills, setSkills] = useState<SkillEstimates>(() => loadSkills(profileId));
+  const [reviewQueue, setReviewQueue] = useState<ReviewItem[]>(() => loadReviewQueue(profileId));
+  // When the open question appeared, to tell slow answers from quick ones
+  const openedAtRef = useRef(Date.now());
+  // When the current try at the open question began
+  const triedAtRef = useRef(Date.now());
+
+  // Save the whole world, so a reload puts every chest back where it was
   useEffect(() => {
-    const saveData = {
-      player: gameState.player,
-      completedBoxes: gameState.treasureBoxes.filter(box => box.isCompleted).map(box => box.id),
-      unlockedBoxes: gameState.treasureBoxes.filter(box => box.isUnlocked).map(box => box.id),
-      level: gameState.player.level,
-      timestamp: Date.now()
-    };
-    localStorage.setItem('treasureHuntSave', JSON.stringify(saveData));
-  }, [gameState]);
+    saveGame(profileId, gameState);
+  }, [profileId, gameState]);
 
-  // Load game state from localStorage
   useEffect(() => {
-    const savedData = localStorage.getItem('treasureHuntSave');
-    if (savedData) {
-      try {
-        const parsed = JSON.parse(savedData);
-        // Only load if save is less than 24 hours old
-        if (Date.now() - parsed.timestamp < 24 * 60 * 60 * 1000) {
-          setGameState(prev => ({
-            ...prev,
-            player: { ...prev.player, ...parsed.player },
-            treasureBoxes: prev.treasureBoxes.map(box => ({
-              ...box,
-              isCompleted: parsed.completedBoxes.includes(box.id),
-              isUnlocked: parsed.unlockedBoxes.includes(box.id)
-            }))
-          }));
-        }
-      } catch (error) {
-        console.error('Failed to load saved game:', error);
-      }
-    }
-  }, []);
+    saveSkills(profileId, skills);
+  }, [profileId, skills]);
+
+  useEffect(() => {
+    saveReviewQueue(profileId, reviewQueue);
+  }, [profileId, reviewQueue]);
 
   const movePlayer = useCallback((x: number, y: number) => {
     setGameState(prev => ({
@@ -162,30 +96,79 @@ export const useGameState = () => {
   }, []);
 
   const interactWithTreasureBox = useCallback((boxId: string) => {
+    // Opening another chest mid-question would reset its attempts
+    if (gameState.isQuestionModalOpen) return;
     const box = gameState.treasureBoxes.find(b => b.id === boxId);
     if (box && box.isUnlocked && !box.isCompleted) {
+      // The chest keeps whichever question suits the student now, so the save shows it too;
+      // Review Chests always bring back their own question, as does a chest with hints bought for it
+      const question = box.isReview || box.hintsRevealed ? box.question : chooseAdaptiveQuestion(box, gameState, skills);
+      openedAtRef.current = Date.now();
+      triedAtRef.current = openedAtRef.current;
       setGameState(prev => ({
         ...prev,
+        // The pedestal follows the question, so a swap to or from hard raises or lowers the chest
+        treasureBoxes: prev.treasureBoxes.map(other => (
+          other.id === boxId ? { ...other, question, elevation: getChestElevation(question.difficulty) } : other
+        )),
         isQuestionModalOpen: true,
-        currentQuestion: box.question,
-        attempts: 0
+        currentQuestion: question,
+        attempts: 0,
+        bestScore: 0
       }));
     }
-  }, [gameState.treasureBoxes]);
+  }, [gameState, skills]);
 
-  const answerQuestion = useCallback((answerIndex: number) => {
+  const answerQuestion = useCallback((response: QuestionResponse, answeredAt: number = Date.now()) => {
     if (!gameState.currentQuestion) return;
 
-    const isCorrect = answerIndex === gameState.currentQuestion.correctAnswer;
+    const { isCorrect, score, misconceptions = [] } = gradeResponse(gameState.currentQuestion, response);
+    const answeredQuestion = gameState.currentQuestion;
+    setSkills(prev => updateSkill(prev, answeredQuestion, score));
+    logMisconceptions(profileId, answeredQuestion, misconceptions, answeredAt);
     const newAttempts = gameState.attempts + 1;
     const maxAttempts = 3;
+    const hintsUsed = getOpenBox(gameState)?.hintsRevealed ?? 0;
+
+    recordAttempt({
+      id: createAttemptId(),
+      profileId,
+      questionId: answeredQuestion.id,
+      grade: answeredQuestion.grade,
+      chapter: answeredQuestion.chapter,
+      topic: answeredQuestion.topic,
+      ...(answeredQuestion.learningOutcome && { learningOutcome: answeredQuestion.learningOutcome }),
+      difficulty: answeredQuestion.difficulty,
+      response,
+      isCorrect,
+      score,
+      seconds: Math.round((answeredAt - triedAtRef.current) / 1000),
+      hintsUsed,
+      attemptNumber: newAttempts,
+      at: answeredAt
+    }).catch(error => console.error('Failed to record attempt:', error));
+    // The next try starts once the result has been shown and the answer cleared
+    triedAtRef.current = Date.now();
+
+    // Missed and slow questions are queued to come back in a later hunt
+    if (isCorrect || newAttempts >= maxAttempts) {
+      const attempt = {
+        at: answeredAt,
+        attempts: newAttempts,
+        isCorrect,
+        seconds: Math.round((answeredAt - openedAtRef.current) / 1000)
+      };
+      setReviewQueue(prev => recordReview(prev, answeredQuestion, attempt));
+    }
 
     setGameState(prev => {
+      const currentQuestion = prev.currentQuestion;
       const currentBox = prev.treasureBoxes.find(box => 
-        box.question.id === prev.currentQuestion?.id
+        box.question.id === currentQuestion?.id
       );
       
-      if (!currentBox) return prev;
+      if (!currentQuestion || !currentBox) return prev;
+      const bestScore = Math.max(prev.bestScore, score);
 
       const updatedBoxes = prev.treasureBoxes.map(box => {
         if (box.question.id === prev.currentQuestion?.id) {
@@ -203,7 +186,7 @@ export const useGameState = () => {
       
       if (completedBoxIndex !== -1) {
         // Unlock next box of same or higher difficulty
-        const currentDifficulty = prev.currentQuestion!.difficulty;
+        const currentDifficulty = currentQuestion.difficulty;
         const nextBoxIndex = updatedBoxes.findIndex((box, index) => 
           index > completedBoxIndex && !box.isUnlocked && 
           (box.question.difficulty === currentDifficulty || 
@@ -229,20 +212,27 @@ export const useGameState = () => {
       let xpEarned = 0;
       
       if (isCorrect) {
-        coinsEarned = getCoinsForDifficulty(prev.currentQuestion.difficulty);
-        xpEarned = getXPForDifficulty(prev.currentQuestion.difficulty);
+        coinsEarned = getCoinsForDifficulty(currentQuestion.difficulty);
+        xpEarned = getXPForDifficulty(currentQuestion.difficulty);
         
-        // Bonus for first attempt
-        if (newAttempts === 1) {
+        // Bonus for first attempt without help
+        if (newAttempts === 1 && hintsUsed === 0) {
           coinsEarned = Math.floor(coinsEarned * 1.5);
           xpEarned = Math.floor(xpEarned * 1.5);
         }
       } else if (newAttempts >= maxAttempts) {
-        // Consolation rewards for completing after max attempts
-        coinsEarned = Math.floor(getCoinsForDifficulty(prev.currentQuestion.difficulty) * 0.3);
-        xpEarned = Math.floor(getXPForDifficulty(prev.currentQuestion.difficulty) * 0.3);
+        // Consolation rewards for completing after max attempts, or partial
+        // credit for the best partly right answer if that is worth more
+        const share = Math.max(0.3, bestScore);
+        coinsEarned = Math.floor(getCoinsForDifficulty(currentQuestion.difficulty) * share);
+        xpEarned = Math.floor(getXPForDifficulty(currentQuestion.difficulty) * share);
       }
 
+      // Each hint bought gives up part of the reward
+      const hintShare = getHintRewardShare(hintsUsed);
+      coinsEarned = Math.floor(coinsEarned * hintShare);
+      xpEarned = Math.floor(xpEarned * hintShare);
+
       const newXP = prev.player.xp + xpEarned;
       const newLevel = calculateLevel(newXP);
       const leveledUp = newLevel > prev.player.level;
@@ -256,6 +246,7 @@ export const useGameState = () => {
         ...prev,
         treasureBoxes: updatedBoxes,
         attempts: newAttempts,
+        bestScore,
         player: {
           ...prev.player,
           coins: prev.player.coins + coinsEarned,
@@ -267,14 +258,31 @@ export const useGameState = () => {
         }
       };
     });
-  }, [gameState.currentQuestion, gameState.attempts]);
+  }, [profileId, gameState]);
+
+  // Spend coins on the open question's next hint
+  const revealHint = useCallback(() => {
+    setGameState(prev => {
+      const openBox = getOpenBox(prev);
+      const hints = prev.currentQuestion?.hints ?? [];
+      const revealed = openBox?.hintsRevealed ?? 0;
+      const cost = getHintCost(revealed);
+      if (!openBox || revealed >= hints.length || prev.player.coins < cost) return prev;
+      return {
+        ...prev,
+        treasureBoxes: prev.treasureBoxes.map(box => (box === openBox ? { ...box, hintsRevealed: revealed + 1 } : box)),
+        player: { ...prev.player, coins: prev.player.coins - cost }
+      };
+    });
+  }, []);
 
   const closeQuestionModal = useCallback(() => {
     setGameState(prev => ({
       ...prev,
       isQuestionModalOpen: false,
       currentQuestion: null,
-      attempts: 0
+      attempts: 0,
+      bestScore: 0
     }));
   }, []);
 
@@ -285,26 +293,49 @@ export const useGameState = () => {
     }));
   }, []);
 
-  const resetGame = useCallback(() => {
-    const easyQuestions = getQuestionsByDifficulty('easy', 4);
-    const mediumQuestions = getQuestionsByDifficulty('medium', 3);
-    const hardQuestions = getQuestionsByDifficulty('hard', 2);
-    const allQuestions = [...easyQuestions, ...mediumQuestions, ...hardQuestions];
-    
-    const treasureBoxes = createTreasureBoxes(allQuestions);
-    
-    setGameState({
-      player: INITIAL_PLAYER,
-      treasureBoxes,
-      currentEnvironment: 'jungle',
-      isQuestionModalOpen: false,
-      currentQuestion: null,
-      attempts: 0,
-      hintsEnabled: true
+  // Start a fresh hunt in another environment, keeping the player's coins, XP, level and
+  // chosen chapters. Without an explicit seed the next world follows from the current
+  // one, so a class that started on the same code and setup stays on identical worlds,
+  // apart from each student's own Review Chests
+  const travelToEnvironment = useCallback((environment: Environment, seed?: number) => {
+    setGameState(prev => {
+      const nextSeed = seed ?? hashSeed(`${prev.seed}:${environment}`);
+      return {
+        ...prev,
+        player: { ...prev.player, x: 0, y: 0 },
+        treasureBoxes: createHuntBoxes(nextSeed, prev.config, dueReviewQuestions(reviewQueue, huntFilter(prev.config))),
+        currentEnvironment: environment,
+        seed: nextSeed,
+        isQuestionModalOpen: false,
+        currentQuestion: null,
+        attempts: 0,
+        bestScore: 0
+      };
     });
-    
-    localStorage.removeItem('treasureHuntSave');
-  }, []);
+  }, [reviewQueue]);
+
+  // Jump to the world behind a shared code; returns false if the code is not valid
+  const playWorldCode = useCallback((code: string): boolean => {
+    const world = parseWorldCode(code);
+    if (!world) return false;
+    travelToEnvironment(world.environment, world.seed);
+    return true;
+  }, [travelToEnvironment]);
+
+  const travelToNextEnvironment = useCallback(() => {
+    travelToEnvironment(getNextEnvironment(gameState.currentEnvironment));
+  }, [gameState.currentEnvironment, travelToEnvironment]);
+
+  // Swap in a game restored from an exported save file, with its learning records;
+  // older save files carry none, so the student keeps their own
+  const importGame = useCallback((state: GameState, learning: LearningRecords | null) => {
+    setGameState(state);
+    if (!learning) return;
+    setSkills(learning.skills);
+    setReviewQueue(learning.reviewQueue);
+    saveMisconceptions(profileId, learning.misconceptions);
+    replaceAttempts(profileId, learning.attempts).catch(error => console.error('Failed to import attempt history:', error));
+  }, [profileId]);
 
   // Helper function to get progress info
   const getProgressInfo = useCallback(() => {
@@ -326,13 +357,18 @@ export const useGameState = () => {
 
   return {
     gameState,
+    skills,
     actions: {
       movePlayer,
       interactWithTreasureBox,
       answerQuestion,
+      revealHint,
       closeQuestionModal,
       toggleHints,
-      resetGame
+      travelToEnvironment,
+      travelToNextEnvironment,
+      playWorldCode,
+      importGame
     },
     getProgressInfo
   };
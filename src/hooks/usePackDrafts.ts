@@ -0,0 +1,52 @@
+import { useState, useCallback, useEffect } from 'react';
+import { QuestionPack } from '../types/game';
+import { runRequest, STORES } from '../utils/database';
+
+// A question pack being written in the editor
+export interface PackDraft {
+  id: string;
+  createdAt: number;
+  updatedAt: number;
+  pack: QuestionPack;
+}
+
+export const createDraftId = () => `draft_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
+
+// The editor's packs, kept in IndexedDB; drafts is null until they have loaded
+export const usePackDrafts = () => {
+  const [drafts, setDrafts] = useState<PackDraft[] | null>(null);
+
+  useEffect(() => {
+    let isCancelled = false;
+    runRequest(STORES.packDrafts, 'readonly', store => store.getAll() as IDBRequest<PackDraft[]>)
+      .then(loaded => {
+        if (!isCancelled) setDrafts(loaded.sort((a, b) => a.createdAt - b.createdAt));
+      })
+      .catch(error => {
+        console.error('Failed to load question pack drafts:', error);
+        if (!isCancelled) setDrafts([]);
+      });
+    return () => {
+      isCancelled = true;
+    };
+  }, []);
+
+  const saveDraft = useCallback((draft: PackDraft) => {
+    setDrafts(prev => {
+      const current = prev ?? [];
+      return current.some(existing => existing.id === draft.id)
+        ? current.map(existing => (existing.id === draft.id ? draft : existing))
+        : [...current, draft];
+    });
+    runRequest(STORES.packDrafts, 'readwrite', store => store.put(draft))
+      .catch(error => console.error('Failed to save question pack draft:', error));
+  }, []);
+
+  const deleteDraft = useCallback((draftId: string) => {
+    setDrafts(prev => (prev ?? []).filter(draft => draft.id !== draftId));
+    runRequest(STORES.packDrafts, 'readwrite', store => store.delete(draftId))
+      .catch(error => console.error('Failed to delete question pack draft:', error));
+  }, []);
+
+  return { drafts, saveDraft, deleteDraft };
+};
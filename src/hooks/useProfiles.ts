@@ -0,0 +1,88 @@
+import { useState, useCallback, useEffect } from 'react';
+import { Profile } from '../types/game';
+import { adoptLegacySave, clearSavedGame } from '../utils/saveGame';
+import { clearSkills } from '../utils/adaptive';
+import { clearReviewQueue } from '../utils/reviewQueue';
+import { clearMisconceptions } from '../utils/misconceptionLog';
+import { clearAttempts } from '../utils/attemptHistory';
+
+const PROFILES_KEY = 'treasureHuntProfiles';
+
+export const PROFILE_COLORS = ['#EF4444', '#F97316', '#EAB308', '#22C55E', '#06B6D4', '#3B82F6', '#8B5CF6', '#EC4899'];
+
+interface ProfileStore {
+  profiles: Profile[];
+  activeProfileId: string | null;
+}
+
+const isProfile = (value: unknown): value is Profile => {
+  if (typeof value !== 'object' || value === null) return false;
+  const { id, name, color, createdAt } = value as Record<string, unknown>;
+  return typeof id === 'string' && typeof name === 'string' && typeof color === 'string' && typeof createdAt === 'number';
+};
+
+const loadProfileStore = (): ProfileStore => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(PROFILES_KEY) ?? 'null');
+    const profiles: Profile[] = Array.isArray(parsed?.profiles) ? parsed.profiles.filter(isProfile) : [];
+    const activeProfileId = profiles.some(profile => profile.id === parsed?.activeProfileId)
+      ? parsed.activeProfileId
+      : null;
+    return { profiles, activeProfileId };
+  } catch (error) {
+    console.error('Failed to load profiles:', error);
+    return { profiles: [], activeProfileId: null };
+  }
+};
+
+const createProfileId = () => `profile_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
+
+// The students sharing this device and which of them is playing right now
+export const useProfiles = () => {
+  const [store, setStore] = useState<ProfileStore>(loadProfileStore);
+
+  useEffect(() => {
+    localStorage.setItem(PROFILES_KEY, JSON.stringify(store));
+  }, [store]);
+
+  const selectProfile = useCallback((profileId: string) => {
+    setStore(prev => ({ ...prev, activeProfileId: profileId }));
+  }, []);
+
+  // Back to the picker; the current student's progress stays saved
+  const switchProfile = useCallback(() => {
+    setStore(prev => ({ ...prev, activeProfileId: null }));
+  }, []);
+
+  const createProfile = useCallback((name: string, color: string) => {
+    const profile: Profile = { id: createProfileId(), name: name.trim(), color, createdAt: Date.now() };
+    if (store.profiles.length === 0) {
+      // Whoever was playing before profiles existed keeps their game
+      adoptLegacySave(profile.id);
+    }
+    setStore(prev => ({ profiles: [...prev.profiles, profile], activeProfileId: profile.id }));
+  }, [store.profiles.length]);
+
+  const deleteProfile = useCallback((profileId: string) => {
+    clearSavedGame(profileId);
+    clearSkills(profileId);
+    clearReviewQueue(profileId);
+    clearMisconceptions(profileId);
+    clearAttempts(profileId).catch(error => console.error('Failed to clear attempt history:', error));
+    setStore(prev => ({
+      profiles: prev.profiles.filter(profile => profile.id !== profileId),
+      activeProfileId: prev.activeProfileId === profileId ? null : prev.activeProfileId
+    }));
+  }, []);
+
+  const activeProfile = store.profiles.find(profile => profile.id === store.activeProfileId) ?? null;
+
+  return {
+    profiles: store.profiles,
+    activeProfile,
+    selectProfile,
+    switchProfile,
+    createProfile,
+    deleteProfile
+  };
+};
@@ -0,0 +1,72 @@
+import { useState, useCallback, useEffect } from 'react';
+import { QuestionPack } from '../types/game';
+import { installQuestionPacks } from '../data/questions';
+import { PackIssue, validateQuestionPack } from '../utils/questionPack';
+
+const QUESTION_PACKS_KEY = 'treasureHuntQuestionPacks';
+
+export interface InstalledPack {
+  id: string;
+  addedAt: number;
+  pack: QuestionPack;
+}
+
+// Packs are checked again on load in case the built-in bank has since taken one of their IDs
+const loadInstalledPacks = (): InstalledPack[] => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(QUESTION_PACKS_KEY) ?? '[]');
+    if (!Array.isArray(parsed)) return [];
+    return parsed.reduce<InstalledPack[]>((installed, entry) => {
+      if (typeof entry?.id !== 'string' || typeof entry?.addedAt !== 'number') return installed;
+      const result = validateQuestionPack(JSON.stringify(entry.pack), installed.map(existing => existing.pack));
+      if (result.ok) {
+        installed.push({ id: entry.id, addedAt: entry.addedAt, pack: result.pack });
+      } else {
+        console.warn(`Skipped question pack ${entry.id}:`, result.errors);
+      }
+      return installed;
+    }, []);
+  } catch (error) {
+    console.error('Failed to load question packs:', error);
+    return [];
+  }
+};
+
+const createPackId = () => `pack_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
+
+// Teachers' question packs on this device, merged into the question bank
+export const useQuestionPacks = () => {
+  const [packs, setPacks] = useState<InstalledPack[]>(() => {
+    const installed = loadInstalledPacks();
+    // Installed straight away so a saved hunt can find its pack questions when it loads
+    installQuestionPacks(installed.map(entry => entry.pack));
+    return installed;
+  });
+
+  useEffect(() => {
+    localStorage.setItem(QUESTION_PACKS_KEY, JSON.stringify(packs));
+  }, [packs]);
+
+  const update = useCallback((next: InstalledPack[]) => {
+    installQuestionPacks(next.map(entry => entry.pack));
+    setPacks(next);
+  }, []);
+
+  // Returns the problems found, or an empty list once the pack is added.
+  // A pack with the same title as one already added is treated as its new version.
+  const addPack = useCallback((text: string): PackIssue[] => {
+    const standalone = validateQuestionPack(text);
+    if (!standalone.ok) return standalone.errors;
+    const others = packs.filter(entry => entry.pack.metadata.title !== standalone.pack.metadata.title);
+    const result = validateQuestionPack(text, others.map(entry => entry.pack));
+    if (!result.ok) return result.errors;
+    update([...others, { id: createPackId(), addedAt: Date.now(), pack: result.pack }]);
+    return [];
+  }, [packs, update]);
+
+  const removePack = useCallback((packId: string) => {
+    update(packs.filter(entry => entry.id !== packId));
+  }, [packs, update]);
+
+  return { packs, addPack, removePack };
+};
@@ -0,0 +1,175 @@
+interface CircleObstacle {
+  shape: 'circle';
+  x: number;
+  z: number;
+  radius: number;
+  top: number;
+}
+
+interface BoxObstacle {
+  shape: 'box';
+  x: number;
+  z: number;
+  halfWidth: number;
+  halfDepth: number;
+  rotation: number;
+  top: number;
+}
+
+type Obstacle = CircleObstacle | BoxObstacle;
+
+export interface CollisionWorld {
+  addCircle: (x: number, z: number, radius: number, top: number) => number;
+  addBox: (x: number, z: number, halfWidth: number, halfDepth: number, top: number, rotation?: number) => number;
+  remove: (id: number) => void;
+  resolve: (x: number, z: number, radius: number, feetY: number) => { x: number; z: number };
+  supportHeight: (x: number, z: number, radius: number, feetY: number) => number;
+}
+
+// Ledges up to this height are stepped onto rather than blocking movement
+export const STEP_HEIGHT = 0.75;
+
+const CELL_SIZE = 20;
+const RESOLVE_ITERATIONS = 3;
+
+const cellKey = (cx: number, cz: number) => `${cx},${cz}`;
+
+const obstacleExtent = (obstacle: Obstacle) =>
+  obstacle.shape === 'circle'
+    ? obstacle.radius
+    : Math.hypot(obstacle.halfWidth, obstacle.halfDepth);
+
+// Push vector that moves a circle out of the obstacle's footprint, or null if they don't overlap
+const penetration = (obstacle: Obstacle, x: number, z: number, radius: number): { x: number; z: number } | null => {
+  if (obstacle.shape === 'circle') {
+    const dx = x - obstacle.x;
+    const dz = z - obstacle.z;
+    const distance = Math.hypot(dx, dz);
+    const overlap = obstacle.radius + radius - distance;
+    if (overlap <= 0) return null;
+    if (distance === 0) return { x: overlap, z: 0 };
+    return { x: (dx / distance) * overlap, z: (dz / distance) * overlap };
+  }
+
+  // Work in the box's local space, then rotate the push back out
+  const cos = Math.cos(obstacle.rotation);
+  const sin = Math.sin(obstacle.rotation);
+  const dx = x - obstacle.x;
+  const dz = z - obstacle.z;
+  const localX = dx * cos - dz * sin;
+  const localZ = dx * sin + dz * cos;
+
+  const closestX = Math.max(-obstacle.halfWidth, Math.min(obstacle.halfWidth, localX));
+  const closestZ = Math.max(-obstacle.halfDepth, Math.min(obstacle.halfDepth, localZ));
+  let pushX = localX - closestX;
+  let pushZ = localZ - closestZ;
+  const distance = Math.hypot(pushX, pushZ);
+
+  if (distance > 0) {
+    const overlap = radius - distance;
+    if (overlap <= 0) return null;
+    pushX = (pushX / distance) * overlap;
+    pushZ = (pushZ / distance) * overlap;
+  } else {
+    // Centre is inside the box: leave through the nearest face
+    const exitX = obstacle.halfWidth - Math.abs(localX) + radius;
+    const exitZ = obstacle.halfDepth - Math.abs(localZ) + radius;
+    if (exitX < exitZ) {
+      pushX = Math.sign(localX || 1) * exitX;
+    } else {
+      pushZ = Math.sign(localZ || 1) * exitZ;
+    }
+  }
+
+  return {
+    x: pushX * cos + pushZ * sin,
+    z: -pushX * sin + pushZ * cos
+  };
+};
+
+// Footprints of props the player can't walk through, bucketed on a grid for cheap lookups
+export const createCollisionWorld = (): CollisionWorld => {
+  const obstacles = new Map<number, Obstacle>();
+  const cells = new Map<string, Set<number>>();
+  const obstacleCells = new Map<number, string[]>();
+  let nextId = 1;
+
+  const insert = (obstacle: Obstacle) => {
+    const id = nextId++;
+    const extent = obstacleExtent(obstacle);
+    const keys: string[] = [];
+    for (let cx = Math.floor((obstacle.x - extent) / CELL_SIZE); cx <= Math.floor((obstacle.x + extent) / CELL_SIZE); cx++) {
+      for (let cz = Math.floor((obstacle.z - extent) / CELL_SIZE); cz <= Math.floor((obstacle.z + extent) / CELL_SIZE); cz++) {
+        const key = cellKey(cx, cz);
+        let cell = cells.get(key);
+        if (!cell) {
+          cell = new Set();
+          cells.set(key, cell);
+        }
+        cell.add(id);
+        keys.push(key);
+      }
+    }
+    obstacles.set(id, obstacle);
+    obstacleCells.set(id, keys);
+    return id;
+  };
+
+  const nearby = (x: number, z: number, radius: number): Obstacle[] => {
+    const ids = new Set<number>();
+    for (let cx = Math.floor((x - radius) / CELL_SIZE); cx <= Math.floor((x + radius) / CELL_SIZE); cx++) {
+      for (let cz = Math.floor((z - radius) / CELL_SIZE); cz <= Math.floor((z + radius) / CELL_SIZE); cz++) {
+        cells.get(cellKey(cx, cz))?.forEach(id => ids.add(id));
+      }
+    }
+    return Array.from(ids, id => obstacles.get(id)!);
+  };
+
+  const addCircle = (x: number, z: number, radius: number, top: number) =>
+    insert({ shape: 'circle', x, z, radius, top });
+
+  const addBox = (x: number, z: number, halfWidth: number, halfDepth: number, top: number, rotation: number = 0) =>
+    insert({ shape: 'box', x, z, halfWidth, halfDepth, rotation, top });
+
+  const remove = (id: number) => {
+    obstacleCells.get(id)?.forEach(key => cells.get(key)?.delete(id));
+    obstacleCells.delete(id);
+    obstacles.delete(id);
+  };
+
+  // Push the player out of anything taller than they can step onto; moving
+  // out along the contact normal is what makes them slide along walls
+  const resolve = (x: number, z: number, radius: number, feetY: number) => {
+    let resolvedX = x;
+    let resolvedZ = z;
+    for (let i = 0; i < RESOLVE_ITERATIONS; i++) {
+      let moved = false;
+      nearby(resolvedX, resolvedZ, radius).forEach(obstacle => {
+        if (obstacle.top <= feetY + STEP_HEIGHT) return;
+        const push = penetration(obstacle, resolvedX, resolvedZ, radius);
+        if (push) {
+          resolvedX += push.x;
+          resolvedZ += push.z;
+          moved = true;
+        }
+      });
+      if (!moved) break;
+    }
+    return { x: resolvedX, z: resolvedZ };
+  };
+
+  // Highest obstacle top under the player that they can stand on, or -Infinity
+  const supportHeight = (x: number, z: number, radius: number, feetY: number) => {
+    let height = -Infinity;
+    nearby(x, z, radius).forEach(obstacle => {
+      if (obstacle.top > feetY + STEP_HEIGHT || obstacle.top <= height) return;
+      // Stand on it only while the feet are over the footprint itself
+      if (penetration(obstacle, x, z, radius * 0.5)) {
+        height = obstacle.top;
+      }
+    });
+    return height;
+  };
+
+  return { addCircle, addBox, remove, resolve, supportHeight };
+};
@@ -0,0 +1,22 @@
+import * as THREE from 'three';
+
+const disposeMaterial = (material: THREE.Material) => {
+  // Textures hang off whichever map slots the material uses
+  Object.values(material).forEach(value => {
+    if (value instanceof THREE.Texture) {
+      value.dispose();
+    }
+  });
+  material.dispose();
+};
+
+// Frees the GPU buffers, materials and textures held by an object and its children
+export const disposeObject = (object: THREE.Object3D) => {
+  object.traverse(child => {
+    if (child instanceof THREE.Mesh || child instanceof THREE.Points || child instanceof THREE.Line) {
+      child.geometry.dispose();
+      const materials: THREE.Material[] = Array.isArray(child.material) ? child.material : [child.material];
+      materials.forEach(disposeMaterial);
+    }
+  });
+};
@@ -0,0 +1,466 @@
+import * as THREE from 'three';
+import { Environment, EnvironmentTheme } from '../types/game';
+import { createInstancedPropSet, InstancedPart, InstancedPropSet, propMatrix, rootMatrix } from './instancing';
+import { CollisionWorld } from './collision';
+import { sampleTerrainHeight } from './terrain';
+import { RandomSource } from '../utils/random';
+
+interface WorldBuilder {
+  scene: THREE.Scene;
+  props: InstancedPropSet;
+  collision: CollisionWorld;
+  random: RandomSource;
+  // Whether a solid prop this wide can stand here without blocking the way to a chest
+  isClear: (x: number, z: number, radius: number) => boolean;
+}
+
+// Draw distances; the fog hides everything past FAR_DISTANCE anyway
+const NEAR_DISTANCE = 120;
+const FAR_DISTANCE = 280;
+const BUSH_DISTANCE = 180;
+const ROCK_DISTANCE = 220;
+
+// Ground kept free of solid props around each chest, so every chest can be walked up to
+const CHEST_CLEARANCE = 10;
+
+// Procedural ground texture painted from the theme's patch palette
+export const createGroundTexture = (theme: EnvironmentTheme, random: RandomSource): THREE.CanvasTexture => {
+  const canvas = document.createElement('canvas');
+  canvas.width = 512;
+  canvas.height = 512;
+  const ctx = canvas.getContext('2d')!;
+
+  ctx.fillStyle = theme.ground.baseColor;
+  ctx.fillRect(0, 0, 512, 512);
+
+  const range = ([min, max]: [number, number]) => min + random() * (max - min);
+
+  theme.ground.patches.forEach(patch => {
+    for (let i = 0; i < patch.count; i++) {
+      const x = random() * 512;
+      const y = random() * 512;
+      const size = patch.minSize + random() * (patch.maxSize - patch.minSize);
+      ctx.fillStyle = `hsl(${range(patch.hue)}, ${range(patch.saturation)}%, ${range(patch.lightness)}%)`;
+      ctx.beginPath();
+      ctx.arc(x, y, size, 0, Math.PI * 2);
+      ctx.fill();
+    }
+  });
+
+  const groundTexture = new THREE.CanvasTexture(canvas);
+  groundTexture.wrapS = groundTexture.wrapT = THREE.RepeatWrapping;
+  groundTexture.repeat.set(25, 25);
+  return groundTexture;
+};
+
+// Random point inside a square area, kept clear of the spawn point
+const scatter = (
+  random: RandomSource,
+  spread: number,
+  clearRadius: number,
+  count: number,
+  place: (x: number, z: number) => void
+) => {
+  for (let i = 0; i < count; i++) {
+    const x = (random() - 0.5) * spread;
+    const z = (random() - 0.5) * spread;
+    if (Math.sqrt(x * x + z * z) > clearRadius) {
+      place(x, z);
+    }
+  }
+};
+
+// Shared rock shapes; size and colour vary per instance
+const createRockParts = (): InstancedPart[] => [
+  new THREE.DodecahedronGeometry(1),
+  new THREE.OctahedronGeometry(1),
+  new THREE.IcosahedronGeometry(1)
+].map(geometry => ({
+  geometry,
+  material: new THREE.MeshLambertMaterial(),
+  receiveShadow: true,
+  maxDistance: ROCK_DISTANCE
+}));
+
+const addRock = (
+  { props, collision, random, isClear }: WorldBuilder,
+  rockParts: InstancedPart[],
+  x: number,
+  z: number,
+  color: THREE.Color,
+  maxSize: number = 3
+) => {
+  const typeIndex = Math.floor(random() * rockParts.length);
+  const size = 1 + random() * maxSize * [1, 0.8, 0.7][typeIndex];
+  // Partly buried so the rock sits on the ground rather than hovering above it
+  const y = sampleTerrainHeight(x, z) + random() * size * 0.5;
+  const matrix = propMatrix(
+    rootMatrix(x, y, z),
+    [0, 0, 0],
+    [random() * Math.PI, random() * Math.PI, random() * Math.PI],
+    size
+  );
+  if (!isClear(x, z, size * 0.85)) return;
+  // Rocks are solid, but low ones can be jumped onto and stood on
+  collision.addCircle(x, z, size * 0.85, y + size * 0.85);
+  props.add(rockParts[typeIndex], matrix, x, z, color);
+};
+
+const populateJungle = (world: WorldBuilder) => {
+  const { props, collision, random, isClear } = world;
+  const palmTrunk: InstancedPart = {
+    geometry: new THREE.CylinderGeometry(0.6, 1.0, 15, 8),
+    material: new THREE.MeshLambertMaterial({ color: 0x8B4513 }),
+    maxDistance: FAR_DISTANCE
+  };
+  const palmFrond: InstancedPart = {
+    geometry: new THREE.CylinderGeometry(0.1, 0.3, 8),
+    material: new THREE.MeshLambertMaterial({ color: 0x228B22 }),
+    maxDistance: NEAR_DISTANCE
+  };
+  const treeTrunk: InstancedPart = {
+    geometry: new THREE.CylinderGeometry(0.8, 1.2, 12, 8),
+    material: new THREE.MeshLambertMaterial({ color: 0x654321 }),
+    maxDistance: FAR_DISTANCE
+  };
+  const treeLeaves: InstancedPart = {
+    geometry: new THREE.SphereGeometry(1, 8, 6),
+    material: new THREE.MeshLambertMaterial(),
+    maxDistance: NEAR_DISTANCE
+  };
+  // Low-poly crown that stands in for the fronds and leaves further away
+  const farCrown: InstancedPart = {
+    geometry: new THREE.ConeGeometry(1, 1, 6),
+    material: new THREE.MeshLambertMaterial(),
+    castShadow: false,
+    minDistance: NEAR_DISTANCE,
+    maxDistance: FAR_DISTANCE
+  };
+  const bush: InstancedPart = {
+    geometry: new THREE.SphereGeometry(1, 8, 6),
+    material: new THREE.MeshLambertMaterial({ color: 0x228B22 }),
+    receiveShadow: true,
+    maxDistance: BUSH_DISTANCE
+  };
+
+  const leafColors = [0x006400, 0x228B22, 0x32CD32, 0x9ACD32].map(color => new THREE.Color(color));
+  const leafSizes = [6, 4.5, 3.5, 2.5];
+  const leafHeights = [14, 16, 18, 20];
+
+  // Create diverse jungle with different tree types
+  scatter(random, 450, 20, 200, (x, z) => {
+    const scale = 0.6 + random() * 1.2;
+    const treeType = Math.floor(random() * 2);
+    // Drawn before the clearing check, so a tree left out doesn't shift the rest of the world
+    const leafOffsets = treeType === 0 ? [] : leafHeights.map(() => [(random() - 0.5) * 2 * scale, (random() - 0.5) * 2 * scale]);
+    if (!isClear(x, z, (treeType === 0 ? 1.0 : 1.2) * scale)) return;
+    const groundY = sampleTerrainHeight(x, z);
+    const root = rootMatrix(x, groundY, z);
+
+    if (treeType === 0) {
+      // Palm tree
+      collision.addCircle(x, z, 1.0 * scale, groundY + 15 * scale);
+      props.add(palmTrunk, propMatrix(root, [0, 7.5 * scale, 0], [0, 0, 0], scale), x, z);
+      for (let i = 0; i < 8; i++) {
+        props.add(palmFrond, propMatrix(root, [0, 15 * scale, 0], [Math.PI / 6, 0, (i / 8) * Math.PI * 2], [1, scale, 1]), x, z);
+      }
+      props.add(farCrown, propMatrix(root, [0, 16 * scale, 0], [0, 0, 0], [6 * scale, 3 * scale, 6 * scale]), x, z, leafColors[1]);
+    } else {
+      // Regular tree with multiple leaf layers
+      collision.addCircle(x, z, 1.2 * scale, groundY + 12 * scale);
+      props.add(treeTrunk, propMatrix(root, [0, 6 * scale, 0], [0, 0, 0], scale), x, z);
+      for (let i = 0; i < 4; i++) {
+        const position: [number, number, number] = [leafOffsets[i][0], leafHeights[i] * scale, leafOffsets[i][1]];
+        props.add(treeLeaves, propMatrix(root, position, [0, 0, 0], leafSizes[i] * scale), x, z, leafColors[i]);
+      }
+      props.add(farCrown, propMatrix(root, [0, 16 * scale, 0], [0, 0, 0], [6 * scale, 12 * scale, 6 * scale]), x, z, leafColors[0]);
+    }
+  });
+
+  scatter(random, 400, 15, 100, (x, z) => {
+    const radius = 2 + random() * 2;
+    props.add(bush, propMatrix(rootMatrix(x, sampleTerrainHeight(x, z), z), [0, 1, 0], [0, 0, 0], [radius, radius * 0.6, radius]), x, z);
+  });
+
+  const rockParts = createRockParts();
+  scatter(random, 350, 12, 80, (x, z) => {
+    addRock(world, rockParts, x, z, new THREE.Color().setHSL(0, 0, 0.3 + random() * 0.3));
+  });
+};
+
+const populateDesert = (world: WorldBuilder) => {
+  const { props, collision, random, isClear } = world;
+  const cactusMaterial = new THREE.MeshLambertMaterial({ color: 0x3B7A3B });
+  const cactusStem: InstancedPart = {
+    geometry: new THREE.CylinderGeometry(0.8, 0.9, 10, 8),
+    material: cactusMaterial,
+    maxDistance: FAR_DISTANCE
+  };
+  const cactusElbow: InstancedPart = {
+    geometry: new THREE.CylinderGeometry(0.5, 0.5, 2, 8),
+    material: cactusMaterial,
+    maxDistance: FAR_DISTANCE
+  };
+  const cactusArm: InstancedPart = {
+    geometry: new THREE.CylinderGeometry(0.5, 0.5, 3.5, 8),
+    material: cactusMaterial,
+    maxDistance: FAR_DISTANCE
+  };
+  const dune: InstancedPart = {
+    geometry: new THREE.SphereGeometry(1, 12, 8, 0, Math.PI * 2, 0, Math.PI / 2),
+    material: new THREE.MeshLambertMaterial({ color: 0xE8C87A }),
+    castShadow: false,
+    receiveShadow: true,
+    maxDistance: FAR_DISTANCE
+  };
+  const tumbleweed: InstancedPart = {
+    geometry: new THREE.IcosahedronGeometry(1, 0),
+    material: new THREE.MeshLambertMaterial({ color: 0x9C7A4B, wireframe: true }),
+    castShadow: false,
+    maxDistance: BUSH_DISTANCE
+  };
+
+  // Saguaro cactus with one or two arms
+  scatter(random, 450, 20, 90, (x, z) => {
+    const scale = 0.6 + random() * 0.8;
+    const armCount = 1 + Math.floor(random() * 2);
+    const armHeights = Array.from({ length: armCount }, () => (4 + random() * 3) * scale);
+    if (!isClear(x, z, 0.9 * scale)) return;
+
+    const groundY = sampleTerrainHeight(x, z);
+    const root = rootMatrix(x, groundY, z);
+    collision.addCircle(x, z, 0.9 * scale, groundY + 10 * scale);
+    props.add(cactusStem, propMatrix(root, [0, 5 * scale, 0], [0, 0, 0], scale), x, z);
+
+    armHeights.forEach((armHeight, i) => {
+      const side = i === 0 ? 1 : -1;
+      props.add(cactusElbow, propMatrix(root, [side * 1.6 * scale, armHeight, 0], [0, 0, Math.PI / 2], scale), x, z);
+      props.add(cactusArm, propMatrix(root, [side * 2.5 * scale, armHeight + 1.5 * scale, 0], [0, 0, 0], scale), x, z);
+    });
+  });
+
+  // Low sand dunes
+  scatter(random, 460, 30, 40, (x, z) => {
+    const radius = 8 + random() * 10;
+    props.add(dune, propMatrix(rootMatrix(x, sampleTerrainHeight(x, z), z), [0, 0, 0], [0, 0, 0], [radius, radius * 0.25, radius]), x, z);
+  });
+
+  // Dry tumbleweed
+  scatter(random, 400, 15, 60, (x, z) => {
+    const size = 1 + random();
+    props.add(tumbleweed, propMatrix(rootMatrix(x, sampleTerrainHeight(x, z), z), [0, 1, 0], [0, 0, 0], size), x, z);
+  });
+
+  const rockParts = createRockParts();
+  scatter(random, 350, 12, 60, (x, z) => {
+    addRock(world, rockParts, x, z, new THREE.Color().setHSL(0.08, 0.35, 0.45 + random() * 0.2), 4);
+  });
+};
+
+const populateCity = ({ props, collision, random, isClear }: WorldBuilder) => {
+  const buildingColors = [0x8A8D91, 0xA9A18C, 0x7B8FA1, 0xB5651D, 0xC0C0C0].map(color => new THREE.Color(color));
+  const buildingBody: InstancedPart = {
+    geometry: new THREE.BoxGeometry(1, 1, 1),
+    material: new THREE.MeshLambertMaterial(),
+    receiveShadow: true,
+    maxDistance: FAR_DISTANCE
+  };
+  const buildingWindow: InstancedPart = {
+    geometry: new THREE.PlaneGeometry(1.2, 1.8),
+    material: new THREE.MeshBasicMaterial({ color: 0xFFE9A8 }),
+    castShadow: false,
+    maxDistance: FAR_DISTANCE
+  };
+
+  // Office blocks laid out on a loose grid so streets stay walkable
+  const addBuilding = (x: number, z: number) => {
+    const width = 8 + random() * 8;
+    const depth = 8 + random() * 8;
+    const height = 15 + random() * 45;
+    const color = buildingColors[Math.floor(random() * buildingColors.length)];
+
+    // Rows of lit windows on the street-facing side
+    const windows: [number, number, number][] = [];
+    for (let floor = 4; floor < height - 2; floor += 4) {
+      for (let col = -width / 2 + 1.5; col < width / 2 - 1; col += 2.5) {
+        if (random() < 0.6) windows.push([col, floor, depth / 2 + 0.01]);
+      }
+    }
+    if (!isClear(x, z, Math.hypot(width, depth) / 2)) return;
+
+    const groundY = sampleTerrainHeight(x, z);
+    const root = rootMatrix(x, groundY, z);
+    props.add(buildingBody, propMatrix(root, [0, height / 2, 0], [0, 0, 0], [width, height, depth]), x, z, color);
+    windows.forEach(position => props.add(buildingWindow, propMatrix(root, position), x, z));
+    collision.addBox(x, z, width / 2, depth / 2, groundY + height);
+  };
+
+  for (let gx = -200; gx <= 200; gx += 40) {
+    for (let gz = -200; gz <= 200; gz += 40) {
+      const x = gx + (random() - 0.5) * 10;
+      const z = gz + (random() - 0.5) * 10;
+      if (Math.sqrt(x * x + z * z) > 25 && random() < 0.7) {
+        addBuilding(x, z);
+      }
+    }
+  }
+
+  // Street lamps along the avenues
+  const lampPole: InstancedPart = {
+    geometry: new THREE.CylinderGeometry(0.15, 0.2, 8, 6),
+    material: new THREE.MeshLambertMaterial({ color: 0x2F2F2F }),
+    maxDistance: BUSH_DISTANCE
+  };
+  const lampBulb: InstancedPart = {
+    geometry: new THREE.SphereGeometry(0.5, 8, 6),
+    material: new THREE.MeshBasicMaterial({ color: 0xFFF2B0 }),
+    castShadow: false,
+    maxDistance: BUSH_DISTANCE
+  };
+
+  const addStreetLamp = (x: number, z: number) => {
+    if (!isClear(x, z, 0.3)) return;
+    const groundY = sampleTerrainHeight(x, z);
+    const root = rootMatrix(x, groundY, z);
+    collision.addCircle(x, z, 0.3, groundY + 8.5);
+    props.add(lampPole, propMatrix(root, [0, 4, 0]), x, z);
+    props.add(lampBulb, propMatrix(root, [0, 8.2, 0]), x, z);
+  };
+
+  for (let i = -200; i <= 200; i += 20) {
+    addStreetLamp(i, 20);
+    addStreetLamp(20, i);
+  }
+
+  // Parked cars
+  const carColors = [0xFF0000, 0x0000CD, 0xFFFFFF, 0x000000, 0xFFD700].map(color => new THREE.Color(color));
+  const carChassis: InstancedPart = {
+    geometry: new THREE.BoxGeometry(4, 1.2, 2),
+    material: new THREE.MeshLambertMaterial(),
+    maxDistance: BUSH_DISTANCE
+  };
+  const carCabin: InstancedPart = {
+    geometry: new THREE.BoxGeometry(2.2, 1, 1.8),
+    material: new THREE.MeshLambertMaterial(),
+    maxDistance: BUSH_DISTANCE
+  };
+
+  scatter(random, 400, 20, 40, (x, z) => {
+    const color = carColors[Math.floor(random() * carColors.length)];
+    const rotationY = random() < 0.5 ? 0 : Math.PI / 2;
+    if (!isClear(x, z, Math.hypot(2, 1))) return;
+    const groundY = sampleTerrainHeight(x, z);
+    const root = rootMatrix(x, groundY, z, rotationY);
+    props.add(carChassis, propMatrix(root, [0, 0.9, 0]), x, z, color);
+    props.add(carCabin, propMatrix(root, [-0.2, 2, 0]), x, z, color);
+    // Low enough to climb onto for a better view
+    collision.addBox(x, z, 2, 1, groundY + 2.5, rotationY);
+  });
+};
+
+const populateSpace = (world: WorldBuilder) => {
+  const { scene, props, collision, random, isClear } = world;
+  const craterRim: InstancedPart = {
+    geometry: new THREE.TorusGeometry(1, 0.2, 6, 20),
+    material: new THREE.MeshLambertMaterial({ color: 0x5A5A66 }),
+    castShadow: false,
+    receiveShadow: true,
+    maxDistance: FAR_DISTANCE
+  };
+  // Emissive colour can't vary per instance, so each crystal colour gets its own part
+  const crystalShards: InstancedPart[] = [0x7FFFD4, 0xDA70D6, 0x87CEFA].map(color => ({
+    geometry: new THREE.ConeGeometry(0.5, 1, 5),
+    material: new THREE.MeshLambertMaterial({ color, emissive: color, emissiveIntensity: 0.4 }),
+    maxDistance: ROCK_DISTANCE
+  }));
+
+  // Shallow craters as flattened rings
+  scatter(random, 450, 25, 50, (x, z) => {
+    const radius = 4 + random() * 8;
+    const root = rootMatrix(x, sampleTerrainHeight(x, z) + 0.2, z);
+    props.add(craterRim, propMatrix(root, [0, 0, 0], [-Math.PI / 2, 0, 0], [radius, radius, radius * 0.4]), x, z);
+  });
+
+  // Glowing crystal clusters
+  scatter(random, 420, 15, 70, (x, z) => {
+    const shard = crystalShards[Math.floor(random() * crystalShards.length)];
+    const shardCount = 3 + Math.floor(random() * 3);
+    const shards = Array.from({ length: shardCount }, () => {
+      const height = 2 + random() * 4;
+      const position: [number, number, number] = [(random() - 0.5) * 2, height / 2, (random() - 0.5) * 2];
+      const rotation: [number, number, number] = [(random() - 0.5) * 0.6, 0, (random() - 0.5) * 0.6];
+      return { height, position, rotation };
+    });
+    if (!isClear(x, z, 1.5)) return;
+
+    const groundY = sampleTerrainHeight(x, z);
+    const root = rootMatrix(x, groundY, z);
+    let clusterHeight = 0;
+    shards.forEach(({ height, position, rotation }) => {
+      clusterHeight = Math.max(clusterHeight, height);
+      props.add(shard, propMatrix(root, position, rotation, [1, height, 1]), x, z);
+    });
+    collision.addCircle(x, z, 1.5, groundY + clusterHeight);
+  });
+
+  const rockParts = createRockParts();
+  scatter(random, 350, 12, 70, (x, z) => {
+    addRock(world, rockParts, x, z, new THREE.Color().setHSL(0.66, 0.05, 0.35 + random() * 0.2));
+  });
+
+  // Starfield and distant planets
+  const starCount = 1500;
+  const starPositions = new Float32Array(starCount * 3);
+  for (let i = 0; i < starCount; i++) {
+    const theta = random() * Math.PI * 2;
+    const phi = random() * Math.PI * 0.45;
+    const radius = 600;
+    starPositions[i * 3] = radius * Math.sin(phi) * Math.cos(theta);
+    starPositions[i * 3 + 1] = radius * Math.cos(phi);
+    starPositions[i * 3 + 2] = radius * Math.sin(phi) * Math.sin(theta);
+  }
+  const starGeometry = new THREE.BufferGeometry();
+  starGeometry.setAttribute('position', new THREE.BufferAttribute(starPositions, 3));
+  const stars = new THREE.Points(starGeometry, new THREE.PointsMaterial({ color: 0xFFFFFF, size: 1.5, fog: false }));
+  scene.add(stars);
+
+  const planets = [
+    { color: 0xE27B58, radius: 40, position: [-250, 180, -400] },
+    { color: 0x7EC8E3, radius: 20, position: [300, 120, -350] }
+  ];
+  planets.forEach(({ color, radius, position }) => {
+    const planet = new THREE.Mesh(
+      new THREE.SphereGeometry(radius, 24, 16),
+      new THREE.MeshBasicMaterial({ color, fog: false })
+    );
+    planet.position.set(position[0], position[1], position[2]);
+    scene.add(planet);
+  });
+};
+
+const populators: Record<Environment, (world: WorldBuilder) => void> = {
+  jungle: populateJungle,
+  desert: populateDesert,
+  city: populateCity,
+  space: populateSpace
+};
+
+// Adds the props that give each environment its look and registers their
+// footprints with the collision world, leaving the ground around each chest
+// clear of anything solid. The same random source always builds the same world.
+// Call update() on the returned set with the player position each frame so only
+// nearby instanced props are drawn
+export const populateEnvironment = (
+  scene: THREE.Scene,
+  environment: Environment,
+  collision: CollisionWorld,
+  random: RandomSource,
+  chests: { x: number; z: number }[] = []
+): InstancedPropSet => {
+  const props = createInstancedPropSet(scene);
+  const isClear = (x: number, z: number, radius: number) =>
+    chests.every(chest => Math.hypot(chest.x - x, chest.z - z) >= radius + CHEST_CLEARANCE);
+  populators[environment]({ scene, props, collision, random, isClear });
+  props.build();
+  return props;
+};
@@ -0,0 +1,79 @@
+export type FrameCallback = (time: number, delta: number) => void;
+
+export interface FrameScheduler {
+  register: (callback: FrameCallback) => () => void;
+  start: () => void;
+  pause: () => void;
+  resume: () => void;
+  isPaused: () => boolean;
+  dispose: () => void;
+}
+
+// Longest step handed to callbacks, so a background tab doesn't cause a huge jump on return
+const MAX_DELTA = 0.1;
+
+// Single requestAnimationFrame loop that drives every registered update, then renders
+export const createFrameScheduler = (render: () => void): FrameScheduler => {
+  const callbacks = new Set<FrameCallback>();
+  let frameId: number | null = null;
+  let lastTime: number | null = null;
+  let paused = false;
+  let disposed = false;
+
+  const tick = (now: number) => {
+    frameId = requestAnimationFrame(tick);
+
+    const time = now * 0.001;
+    const delta = lastTime === null ? 0 : Math.min(time - lastTime, MAX_DELTA);
+    lastTime = time;
+
+    // Copy so callbacks can unregister themselves mid-frame
+    Array.from(callbacks).forEach(callback => callback(time, delta));
+    render();
+  };
+
+  const register = (callback: FrameCallback) => {
+    callbacks.add(callback);
+    return () => {
+      callbacks.delete(callback);
+    };
+  };
+
+  const start = () => {
+    if (disposed || paused || frameId !== null) return;
+    lastTime = null;
+    frameId = requestAnimationFrame(tick);
+  };
+
+  const stop = () => {
+    if (frameId !== null) {
+      cancelAnimationFrame(frameId);
+      frameId = null;
+    }
+  };
+
+  const pause = () => {
+    paused = true;
+    stop();
+  };
+
+  const resume = () => {
+    paused = false;
+    start();
+  };
+
+  const dispose = () => {
+    disposed = true;
+    stop();
+    callbacks.clear();
+  };
+
+  return {
+    register,
+    start,
+    pause,
+    resume,
+    isPaused: () => paused,
+    dispose
+  };
+};
@@ -0,0 +1,145 @@
+import * as THREE from 'three';
+
+export interface InstancedPart {
+  geometry: THREE.BufferGeometry;
+  material: THREE.Material;
+  castShadow?: boolean;
+  receiveShadow?: boolean;
+  // Distance band from the player in which this part is drawn
+  minDistance?: number;
+  maxDistance: number;
+}
+
+export interface InstancedPropSet {
+  add: (part: InstancedPart, matrix: THREE.Matrix4, anchorX: number, anchorZ: number, color?: THREE.Color) => void;
+  build: () => void;
+  update: (viewerX: number, viewerZ: number) => void;
+  dispose: () => void;
+}
+
+interface PartInstances {
+  matrices: number[];
+  anchors: number[];
+  colors: number[] | null;
+  mesh: THREE.InstancedMesh | null;
+}
+
+// Only re-cull once the player has moved this far since the last pass
+const UPDATE_THRESHOLD = 4;
+
+const dummy = new THREE.Object3D();
+
+// Local transform of one piece of a prop, placed relative to the prop's root
+export const propMatrix = (
+  root: THREE.Matrix4,
+  position: [number, number, number],
+  rotation: [number, number, number] = [0, 0, 0],
+  scale: [number, number, number] | number = 1
+): THREE.Matrix4 => {
+  dummy.position.set(...position);
+  dummy.rotation.set(...rotation);
+  if (typeof scale === 'number') {
+    dummy.scale.setScalar(scale);
+  } else {
+    dummy.scale.set(...scale);
+  }
+  dummy.updateMatrix();
+  return dummy.matrix.clone().premultiply(root);
+};
+
+export const rootMatrix = (x: number, y: number, z: number, rotationY: number = 0): THREE.Matrix4 =>
+  new THREE.Matrix4().makeRotationY(rotationY).setPosition(x, y, z);
+
+// Batches many copies of the same geometry into one draw call per part,
+// and only draws the copies inside each part's distance band
+export const createInstancedPropSet = (scene: THREE.Scene): InstancedPropSet => {
+  const parts = new Map<InstancedPart, PartInstances>();
+  let lastViewer: { x: number; z: number } | null = null;
+
+  const add = (part: InstancedPart, matrix: THREE.Matrix4, anchorX: number, anchorZ: number, color?: THREE.Color) => {
+    let instances = parts.get(part);
+    if (!instances) {
+      instances = { matrices: [], anchors: [], colors: color ? [] : null, mesh: null };
+      parts.set(part, instances);
+    }
+    instances.matrices.push(...matrix.elements);
+    instances.anchors.push(anchorX, anchorZ);
+    if (instances.colors) {
+      const instanceColor = color ?? new THREE.Color(0xffffff);
+      instances.colors.push(instanceColor.r, instanceColor.g, instanceColor.b);
+    }
+  };
+
+  const build = () => {
+    parts.forEach((instances, part) => {
+      const capacity = instances.anchors.length / 2;
+      const mesh = new THREE.InstancedMesh(part.geometry, part.material, capacity);
+      mesh.castShadow = part.castShadow ?? true;
+      mesh.receiveShadow = part.receiveShadow ?? false;
+      // Instances are spread across the whole map, so cull by distance instead
+      mesh.frustumCulled = false;
+      if (instances.colors) {
+        mesh.instanceColor = new THREE.InstancedBufferAttribute(new Float32Array(capacity * 3), 3);
+      }
+      mesh.count = 0;
+      instances.mesh = mesh;
+      scene.add(mesh);
+    });
+    lastViewer = null;
+  };
+
+  const update = (viewerX: number, viewerZ: number) => {
+    if (lastViewer && Math.hypot(viewerX - lastViewer.x, viewerZ - lastViewer.z) < UPDATE_THRESHOLD) {
+      return;
+    }
+    lastViewer = { x: viewerX, z: viewerZ };
+
+    parts.forEach((instances, part) => {
+      const mesh = instances.mesh;
+      if (!mesh) return;
+
+      const minSq = (part.minDistance ?? 0) ** 2;
+      const maxSq = part.maxDistance ** 2;
+      const matrixArray = mesh.instanceMatrix.array as Float32Array;
+      const colorArray = mesh.instanceColor?.array as Float32Array | undefined;
+      let visible = 0;
+
+      for (let i = 0; i < instances.anchors.length / 2; i++) {
+        const dx = instances.anchors[i * 2] - viewerX;
+        const dz = instances.anchors[i * 2 + 1] - viewerZ;
+        const distanceSq = dx * dx + dz * dz;
+        if (distanceSq < minSq || distanceSq >= maxSq) continue;
+
+        for (let e = 0; e < 16; e++) {
+          matrixArray[visible * 16 + e] = instances.matrices[i * 16 + e];
+        }
+        if (colorArray && instances.colors) {
+          colorArray[visible * 3] = instances.colors[i * 3];
+          colorArray[visible * 3 + 1] = instances.colors[i * 3 + 1];
+          colorArray[visible * 3 + 2] = instances.colors[i * 3 + 2];
+        }
+        visible++;
+      }
+
+      mesh.count = visible;
+      mesh.instanceMatrix.needsUpdate = true;
+      if (mesh.instanceColor) {
+        mesh.instanceColor.needsUpdate = true;
+      }
+    });
+  };
+
+  const dispose = () => {
+    parts.forEach((instances, part) => {
+      if (instances.mesh) {
+        scene.remove(instances.mesh);
+        instances.mesh.dispose();
+      }
+      part.geometry.dispose();
+      part.material.dispose();
+    });
+    parts.clear();
+  };
+
+  return { add, build, update, dispose };
+};
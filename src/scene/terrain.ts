@@ -0,0 +1,22 @@
+import * as THREE from 'three';
+
+export const TERRAIN_SIZE = 500;
+const TERRAIN_SEGMENTS = 100;
+
+// Height of the rolling ground at a world position. The ground mesh is built
+// from this, so anything placed with it rests on the visible surface
+export const sampleTerrainHeight = (x: number, z: number): number =>
+  Math.sin(x * 0.01) * Math.cos(z * 0.01) * 2;
+
+export const createTerrainGeometry = (): THREE.PlaneGeometry => {
+  const geometry = new THREE.PlaneGeometry(TERRAIN_SIZE, TERRAIN_SIZE, TERRAIN_SEGMENTS, TERRAIN_SEGMENTS);
+
+  // The plane is laid flat with a -90° turn about X, so local (x, y) becomes world (x, -z)
+  const vertices = geometry.attributes.position.array;
+  for (let i = 0; i < vertices.length; i += 3) {
+    vertices[i + 2] = sampleTerrainHeight(vertices[i], -vertices[i + 1]);
+  }
+  geometry.attributes.position.needsUpdate = true;
+  geometry.computeVertexNormals();
+  return geometry;
+};
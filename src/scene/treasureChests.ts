@@ -0,0 +1,307 @@
+import * as THREE from 'three';
+import { gsap } from 'gsap';
+import { EnvironmentTheme, TreasureBox } from '../types/game';
+import { FrameScheduler } from './frameScheduler';
+import { disposeObject } from './dispose';
+import { CollisionWorld } from './collision';
+import { sampleTerrainHeight } from './terrain';
+
+interface ChestEffects {
+  glow: THREE.Mesh<THREE.SphereGeometry, THREE.MeshBasicMaterial>;
+  particles: THREE.Points<THREE.BufferGeometry, THREE.PointsMaterial>;
+  unregister: () => void;
+}
+
+interface ChestEntry {
+  group: THREE.Group;
+  body: THREE.Mesh<THREE.BoxGeometry, THREE.MeshLambertMaterial>;
+  lid: THREE.Mesh<THREE.BoxGeometry, THREE.MeshLambertMaterial>;
+  lock: THREE.Mesh<THREE.CylinderGeometry, THREE.MeshLambertMaterial>;
+  boxSize: number;
+  // Size, colours and gems all follow it, so a chest whose question changes difficulty is rebuilt
+  difficulty: TreasureBox['question']['difficulty'];
+  colliders: number[];
+  isUnlocked: boolean;
+  isCompleted: boolean;
+  effects: ChestEffects | null;
+}
+
+export interface TreasureChestLayer {
+  sync: (boxes: TreasureBox[], hintsEnabled: boolean) => void;
+  dispose: () => void;
+}
+
+// Keeps the chest meshes in the scene in step with the treasure boxes in game state
+export const createTreasureChestLayer = (
+  scene: THREE.Scene,
+  theme: EnvironmentTheme,
+  scheduler: FrameScheduler,
+  collision: CollisionWorld
+): TreasureChestLayer => {
+  const chests = new Map<string, ChestEntry>();
+
+  const getChestStyle = (box: TreasureBox) => (box.isReview ? theme.chest.review : theme.chest[box.question.difficulty]);
+
+  const getBoxColor = (box: TreasureBox) => {
+    if (box.isCompleted) return theme.chest.completed;
+    return box.isUnlocked ? getChestStyle(box).body : theme.chest.locked;
+  };
+
+  const getLidColor = (box: TreasureBox) => {
+    if (box.isCompleted) return theme.chest.completed;
+    return box.isUnlocked ? getBoxColor(box) : theme.chest.lockedLid;
+  };
+
+  // Floating arrow with trail effect over the next chest to open
+  const arrow = new THREE.Mesh(
+    new THREE.ConeGeometry(0.8, 3, 8),
+    new THREE.MeshBasicMaterial({ color: 0x00FF00 })
+  );
+  arrow.rotation.x = Math.PI;
+  const trail = new THREE.Mesh(
+    new THREE.CylinderGeometry(0.1, 0.3, 2),
+    new THREE.MeshBasicMaterial({ color: 0x00FF00, transparent: true, opacity: 0.5 })
+  );
+  const hint = new THREE.Group();
+  hint.add(arrow, trail);
+  hint.visible = false;
+  scene.add(hint);
+  let unregisterHint: (() => void) | null = null;
+
+  // Animate hint elements
+  const animateHint = (time: number) => {
+    const hintTime = time * 3;
+    arrow.position.y = 8 + Math.sin(hintTime) * 2;
+    arrow.rotation.z += 0.02;
+    trail.position.y = 10 + Math.sin(hintTime + 1) * 1.5;
+    trail.material.opacity = 0.3 + Math.sin(hintTime * 2) * 0.2;
+  };
+
+  // Where the chest's base sits: on the ground, or on top of its pedestal
+  const getBaseY = (box: TreasureBox) => sampleTerrainHeight(box.x, box.y) + box.elevation;
+
+  const createEffects = (box: TreasureBox, boxSize: number): ChestEffects => {
+    const glowColor = getChestStyle(box).glow;
+
+    const glow = new THREE.Mesh(
+      new THREE.SphereGeometry(boxSize * 1.5, 16, 12),
+      new THREE.MeshBasicMaterial({ color: glowColor, transparent: true, opacity: 0.15 })
+    );
+    glow.position.set(box.x, getBaseY(box) + boxSize * 0.7, box.y);
+    scene.add(glow);
+
+    // Particle effect
+    const particleCount = 20;
+    const particleGeometry = new THREE.BufferGeometry();
+    const positions = new Float32Array(particleCount * 3);
+
+    for (let i = 0; i < particleCount * 3; i += 3) {
+      positions[i] = (Math.random() - 0.5) * 10;
+      positions[i + 1] = Math.random() * 8;
+      positions[i + 2] = (Math.random() - 0.5) * 10;
+    }
+
+    particleGeometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+    const particles = new THREE.Points(particleGeometry, new THREE.PointsMaterial({
+      color: glowColor,
+      size: 0.3,
+      transparent: true,
+      opacity: 0.6
+    }));
+    particles.position.set(box.x, getBaseY(box), box.y);
+    scene.add(particles);
+
+    const unregister = scheduler.register(time => {
+      glow.material.opacity = 0.1 + Math.sin(time * 2) * 0.1;
+      glow.rotation.y += 0.01;
+
+      // Animate particles
+      const particlePositions = particles.geometry.attributes.position.array;
+      for (let i = 1; i < particlePositions.length; i += 3) {
+        particlePositions[i] += Math.sin(time + i) * 0.02;
+      }
+      particles.geometry.attributes.position.needsUpdate = true;
+      particles.rotation.y += 0.005;
+    });
+
+    return { glow, particles, unregister };
+  };
+
+  const removeEffects = (entry: ChestEntry) => {
+    if (!entry.effects) return;
+    entry.effects.unregister();
+    scene.remove(entry.effects.glow, entry.effects.particles);
+    disposeObject(entry.effects.glow);
+    disposeObject(entry.effects.particles);
+    entry.effects = null;
+  };
+
+  const createChest = (box: TreasureBox): ChestEntry => {
+    const group = new THREE.Group();
+    const baseY = getBaseY(box);
+    const difficulty = box.question.difficulty;
+    const chestStyle = getChestStyle(box);
+    const boxSize = difficulty === 'easy' ? 2.5 : difficulty === 'medium' ? 3 : 3.5;
+
+    // Main treasure chest with enhanced geometry
+    const body = new THREE.Mesh(
+      new THREE.BoxGeometry(boxSize, boxSize * 0.7, boxSize * 0.8),
+      new THREE.MeshLambertMaterial()
+    );
+    body.position.y = boxSize * 0.35;
+    body.castShadow = true;
+    body.receiveShadow = true;
+    body.userData = { type: 'treasureBox', id: box.id };
+    group.add(body);
+
+    // Enhanced chest lid
+    const lid = new THREE.Mesh(
+      new THREE.BoxGeometry(boxSize * 1.1, boxSize * 0.15, boxSize * 0.9),
+      new THREE.MeshLambertMaterial()
+    );
+    lid.position.set(0, boxSize * 0.775, 0);
+    lid.castShadow = true;
+    group.add(lid);
+
+    // Decorative elements based on difficulty
+    if (chestStyle.gem !== undefined) {
+      for (let i = 0; i < 3; i++) {
+        const gem = new THREE.Mesh(
+          new THREE.OctahedronGeometry(0.2),
+          new THREE.MeshLambertMaterial({ color: chestStyle.gem, transparent: true, opacity: 0.8 })
+        );
+        gem.position.set((i - 1) * 0.8, boxSize * 0.4, boxSize * 0.4);
+        gem.castShadow = true;
+        group.add(gem);
+      }
+    }
+
+    // Lock system
+    const lock = new THREE.Mesh(
+      new THREE.CylinderGeometry(0.4, 0.4, 0.3, 8),
+      new THREE.MeshLambertMaterial({ color: theme.chest.lock })
+    );
+    lock.position.set(0, boxSize * 0.5, boxSize * 0.45);
+    lock.rotation.x = Math.PI / 2;
+    lock.castShadow = true;
+    group.add(lock);
+
+    const colliders = [
+      collision.addBox(box.x, box.y, boxSize / 2, boxSize * 0.4, baseY + boxSize * 0.7)
+    ];
+
+    // Stone pedestal that has to be jumped onto to reach the chest
+    if (box.elevation > 0) {
+      // Sunk a little into the ground so slopes don't leave a gap underneath
+      const pedestalSize = boxSize * 1.8;
+      const pedestalHeight = box.elevation + 1;
+      const pedestal = new THREE.Mesh(
+        new THREE.BoxGeometry(pedestalSize, pedestalHeight, pedestalSize),
+        new THREE.MeshLambertMaterial({ color: theme.chest.locked })
+      );
+      pedestal.position.y = -pedestalHeight / 2;
+      pedestal.castShadow = true;
+      pedestal.receiveShadow = true;
+      group.add(pedestal);
+      colliders.push(collision.addBox(box.x, box.y, pedestalSize / 2, pedestalSize / 2, baseY));
+    }
+
+    group.position.set(box.x, baseY, box.y);
+    scene.add(group);
+
+    return { group, body, lid, lock, boxSize, difficulty, colliders, isUnlocked: false, isCompleted: false, effects: null };
+  };
+
+  const styleChest = (entry: ChestEntry, box: TreasureBox, animate: boolean) => {
+    entry.body.material.color.setHex(getBoxColor(box));
+    entry.lid.material.color.setHex(getLidColor(box));
+    entry.lock.visible = !box.isUnlocked;
+
+    const lidTarget = box.isCompleted
+      ? { rotationX: -Math.PI / 3, z: -entry.boxSize * 0.2 }
+      : { rotationX: 0, z: 0 };
+    gsap.killTweensOf([entry.lid.rotation, entry.lid.position]);
+    if (animate) {
+      gsap.to(entry.lid.rotation, { x: lidTarget.rotationX, duration: 0.8, ease: 'back.out(2)' });
+      gsap.to(entry.lid.position, { z: lidTarget.z, duration: 0.8, ease: 'power2.out' });
+    } else {
+      entry.lid.rotation.x = lidTarget.rotationX;
+      entry.lid.position.z = lidTarget.z;
+    }
+
+    const wantsEffects = box.isUnlocked && !box.isCompleted;
+    if (wantsEffects && !entry.effects) {
+      entry.effects = createEffects(box, entry.boxSize);
+    } else if (!wantsEffects) {
+      removeEffects(entry);
+    }
+
+    entry.isUnlocked = box.isUnlocked;
+    entry.isCompleted = box.isCompleted;
+  };
+
+  const removeChest = (id: string) => {
+    const entry = chests.get(id);
+    if (!entry) return;
+    gsap.killTweensOf([entry.lid.rotation, entry.lid.position]);
+    removeEffects(entry);
+    entry.colliders.forEach(collision.remove);
+    scene.remove(entry.group);
+    disposeObject(entry.group);
+    chests.delete(id);
+  };
+
+  const sync = (boxes: TreasureBox[], hintsEnabled: boolean) => {
+    const boxIds = new Set(boxes.map(box => box.id));
+    Array.from(chests.keys())
+      .filter(id => !boxIds.has(id))
+      .forEach(removeChest);
+
+    boxes.forEach(box => {
+      let entry = chests.get(box.id);
+      let isNew = !entry;
+      if (!entry) {
+        entry = createChest(box);
+        chests.set(box.id, entry);
+      } else if (
+        entry.group.position.x !== box.x
+        || entry.group.position.z !== box.y
+        || entry.difficulty !== box.question.difficulty
+      ) {
+        // Same ID but a different hunt, or an adaptive question of another difficulty: start the chest over
+        removeChest(box.id);
+        entry = createChest(box);
+        chests.set(box.id, entry);
+        isNew = true;
+      }
+
+      if (isNew || entry.isUnlocked !== box.isUnlocked || entry.isCompleted !== box.isCompleted) {
+        styleChest(entry, box, !isNew && box.isCompleted && !entry.isCompleted);
+      }
+    });
+
+    // Enhanced hint system
+    const nextBox = boxes.find(box => box.isUnlocked && !box.isCompleted);
+    hint.visible = hintsEnabled && nextBox !== undefined;
+    if (nextBox) {
+      hint.position.set(nextBox.x, getBaseY(nextBox), nextBox.y);
+    }
+
+    if (hint.visible && !unregisterHint) {
+      unregisterHint = scheduler.register(animateHint);
+    } else if (!hint.visible && unregisterHint) {
+      unregisterHint();
+      unregisterHint = null;
+    }
+  };
+
+  const dispose = () => {
+    Array.from(chests.keys()).forEach(removeChest);
+    unregisterHint?.();
+    unregisterHint = null;
+    scene.remove(hint);
+    disposeObject(hint);
+  };
+
+  return { sync, dispose };
+};
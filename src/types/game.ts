@@ -0,0 +1,321 @@
+// A position in a figure's own units; y grows downward, as on screen
+export type FigurePoint = [number, number];
+
+export type FigureShape =
+  | { kind: 'polygon'; points: FigurePoint[]; shaded?: boolean }
+  | { kind: 'circle'; center: FigurePoint; radius: number; shaded?: boolean }
+  | { kind: 'segment'; from: FigurePoint; to: FigurePoint; dashed?: boolean; label?: string }
+  // Arc at the vertex between the rays towards from and to, or a small square when right
+  | { kind: 'angle'; vertex: FigurePoint; from: FigurePoint; to: FigurePoint; label?: string; right?: boolean }
+  // Measurement line drawn to the left of from → to, which is outside a shape listed clockwise
+  | { kind: 'dimension'; from: FigurePoint; to: FigurePoint; label: string }
+  | { kind: 'label'; at: FigurePoint; text: string };
+
+interface FigureBase {
+  // Read out by screen readers in place of the drawing
+  alt?: string;
+}
+
+export interface ShapesFigure extends FigureBase {
+  kind: 'shapes';
+  width: number;
+  height: number;
+  shapes: FigureShape[];
+}
+
+export interface NumberLineFigure extends FigureBase {
+  kind: 'number-line';
+  min: number;
+  max: number;
+  // Gap between ticks; 1 when left out
+  step?: number;
+  points?: { value: number; label?: string }[];
+  // Curved arrows above the line, e.g. for adding integers
+  jumps?: { from: number; to: number; label?: string }[];
+}
+
+export interface BarGraphFigure extends FigureBase {
+  kind: 'bar-graph';
+  bars: { label: string; value: number }[];
+  // Gap between grid lines; picked from the largest bar when left out
+  step?: number;
+  xLabel?: string;
+  yLabel?: string;
+}
+
+export type Figure = ShapesFigure | NumberLineFigure | BarGraphFigure;
+
+// Where a question sits in the NCERT syllabus
+export interface CurriculumTag {
+  // NCERT class, e.g. 7
+  grade: number;
+  // Textbook chapter title, e.g. "Integers"
+  chapter: string;
+  topic: string;
+  // Code from LEARNING_OUTCOMES in data/curriculum.ts, e.g. "M7.1.2"
+  learningOutcome?: string;
+}
+
+// Narrows which questions a hunt draws from; anything left out matches every question
+export interface QuestionFilter {
+  grade?: number;
+  chapters?: string[];
+  topics?: string[];
+  learningOutcome?: string;
+}
+
+interface QuestionBase extends CurriculumTag {
+  id: string;
+  subject: 'Math' | 'Science' | 'History' | 'Geography' | 'Literature';
+  difficulty: 'easy' | 'medium' | 'hard';
+  question: string;
+  // Help bought with coins one at a time, from a nudge to part of the working
+  hints?: string[];
+  // Shown after answering; a list is a worked solution, played one step at a time
+  explanation: string | string[];
+  // Diagram shown under the question text
+  figure?: Figure;
+}
+
+export interface MultipleChoiceQuestion extends QuestionBase {
+  type: 'multiple-choice';
+  options: string[];
+  correctAnswer: number;
+  // What each option gets wrong, in the same order, shown when it is picked; empty for the
+  // correct option and for options without a known misconception
+  optionFeedback?: string[];
+}
+
+// Typed answer such as 17, 0.6 or 3/4, marked by its value rather than its spelling
+export interface NumericQuestion extends QuestionBase {
+  type: 'numeric';
+  answer: string;
+  // Largest difference from the answer still marked correct; exact when left out
+  tolerance?: number;
+  // Whether 2/4 counts when the answer is 1/2; accepted when left out
+  acceptUnreduced?: boolean;
+  unit?: string;
+}
+
+// Pick every correct statement
+export interface MultiSelectQuestion extends QuestionBase {
+  type: 'multi-select';
+  options: string[];
+  correctAnswers: number[];
+  // As for multiple choice: shown for each wrong option picked
+  optionFeedback?: string[];
+}
+
+// Arrange the items; they are listed in the correct order and shuffled when shown
+export interface OrderingQuestion extends QuestionBase {
+  type: 'ordering';
+  items: string[];
+}
+
+// Match each left item to its partner; the right column is shuffled when shown
+export interface MatchingQuestion extends QuestionBase {
+  type: 'matching';
+  pairs: { left: string; right: string }[];
+}
+
+export type Question =
+  | MultipleChoiceQuestion
+  | NumericQuestion
+  | MultiSelectQuestion
+  | OrderingQuestion
+  | MatchingQuestion;
+
+export interface QuestionPackMetadata {
+  title: string;
+  // NCERT class the questions are written for, e.g. 7
+  class: number;
+  chapter: string;
+  author: string;
+  language: string;
+}
+
+// Questions written by teachers outside the code, loaded from a JSON file
+export interface QuestionPack {
+  format: string;
+  version: number;
+  metadata: QuestionPackMetadata;
+  questions: Question[];
+}
+
+// What the student submitted, shaped by the kind of question it answers
+export type QuestionResponse =
+  | { type: 'multiple-choice'; selected: number }
+  | { type: 'numeric'; value: string }
+  | { type: 'multi-select'; selected: number[] }
+  // Item indexes in the order the student arranged them
+  | { type: 'ordering'; order: number[] }
+  // For each left item, the index of the pair whose right side was chosen
+  | { type: 'matching'; matches: number[] };
+
+export interface TreasureBox {
+  id: string;
+  x: number;
+  y: number;
+  question: Question;
+  isUnlocked: boolean;
+  isCompleted: boolean;
+  coins: number;
+  // Height of the pedestal the chest sits on; 0 means on the ground
+  elevation: number;
+  // Brings back a question from the student's review queue
+  isReview?: boolean;
+  // Hints bought for its question; kept when the chest is closed, so reopening it doesn't
+  // win back the reward they cost
+  hintsRevealed?: number;
+}
+
+export interface Player {
+  x: number;
+  y: number;
+  coins: number;
+  xp: number;
+  level: number;
+  completedBoxes: string[];
+}
+
+export type Environment = 'jungle' | 'city' | 'desert' | 'space';
+
+export interface GroundPatch {
+  count: number;
+  minSize: number;
+  maxSize: number;
+  hue: [number, number];
+  saturation: [number, number];
+  lightness: [number, number];
+}
+
+export interface ChestStyle {
+  body: number;
+  glow: number;
+  gem?: number;
+}
+
+export interface EnvironmentTheme {
+  id: Environment;
+  name: string;
+  description: string;
+  skyColor: number;
+  fog: {
+    color: number;
+    near: number;
+    far: number;
+  };
+  lighting: {
+    ambientColor: number;
+    ambientIntensity: number;
+    sunColor: number;
+    sunIntensity: number;
+    rimColor: number;
+    rimIntensity: number;
+  };
+  ground: {
+    baseColor: string;
+    patches: GroundPatch[];
+  };
+  chest: {
+    locked: number;
+    lockedLid: number;
+    completed: number;
+    lock: number;
+    easy: ChestStyle;
+    medium: ChestStyle;
+    hard: ChestStyle;
+    // Review Chests, whatever the difficulty of their question
+    review: ChestStyle;
+  };
+  backgroundClass: string;
+}
+
+// How a student is doing in one topic, as an Elo-style rating on the same scale as the difficulties
+export interface SkillEstimate {
+  grade: number;
+  chapter: string;
+  topic: string;
+  rating: number;
+  // Graded attempts the rating is based on
+  answered: number;
+}
+
+// Keyed by class, chapter and topic, e.g. "7/Integers/Adding integers"
+export type SkillEstimates = Record<string, SkillEstimate>;
+
+// One go at a question, as the review queue remembers it
+export interface ReviewAttempt {
+  at: number;
+  // Tries used, up to the three a question allows
+  attempts: number;
+  isCorrect: boolean;
+  seconds: number;
+}
+
+// A missed or slow question waiting to come back as a Review Chest
+export interface ReviewItem {
+  questionId: string;
+  history: ReviewAttempt[];
+}
+
+// A wrong option a student picked, with the misconception its feedback names
+export interface MisconceptionRecord extends CurriculumTag {
+  at: number;
+  questionId: string;
+  // The option as shown, since generated questions shuffle theirs
+  option: string;
+  feedback: string;
+}
+
+// One submitted answer, as the attempt history keeps it for reports
+export interface AttemptRecord extends CurriculumTag {
+  id: string;
+  profileId: string;
+  questionId: string;
+  difficulty: Question['difficulty'];
+  response: QuestionResponse;
+  isCorrect: boolean;
+  // Partial credit, from 0 to 1
+  score: number;
+  // Since the chest was opened, or since the last try at it
+  seconds: number;
+  hintsUsed: number;
+  // 1 for the first try at the question
+  attemptNumber: number;
+  at: number;
+}
+
+// What the student chose on the start screen; every world of the game is built from it
+export interface HuntConfig {
+  // NCERT class to draw questions from; every class when left out
+  grade?: number;
+  // Chapters of that class; every chapter when left out
+  chapters?: string[];
+  chestCount: number;
+  // Share of chests at each difficulty, e.g. 4:3:2
+  difficultyMix: Record<Question['difficulty'], number>;
+}
+
+export interface GameState {
+  player: Player;
+  treasureBoxes: TreasureBox[];
+  currentEnvironment: Environment;
+  // Seed for the current world: chest layout, questions and scenery
+  seed: number;
+  config: HuntConfig;
+  isQuestionModalOpen: boolean;
+  currentQuestion: Question | null;
+  attempts: number;
+  // Best partial credit reached on the open question, from 0 to 1
+  bestScore: number;
+  // Whether the arrow over the next chest is shown
+  hintsEnabled: boolean;
+}
+// One student sharing the device, with their own saved game
+export interface Profile {
+  id: string;
+  name: string;
+  color: string;
+  createdAt: number;
+}
@@ -0,0 +1,113 @@
+import { CurriculumTag, GameState, Question, SkillEstimate, SkillEstimates, TreasureBox } from '../types/game';
+import { getMixedQuestions } from '../data/questions';
+import { DIFFICULTIES } from './hunt';
+import { deriveRandom } from './random';
+
+type Difficulty = Question['difficulty'];
+
+const SKILLS_KEY = 'treasureHuntSkills';
+
+const skillsKey = (profileId: string) => `${SKILLS_KEY}:${profileId}`;
+
+export const STARTING_RATING = 1000;
+
+// Each difficulty plays the part of an opponent with a fixed rating
+export const DIFFICULTY_RATINGS: Record<Difficulty, number> = { easy: 800, medium: 1000, hard: 1200 };
+
+// Graded attempts needed before a rating is trusted to change a chest
+const MIN_EVIDENCE = 2;
+// Expected scores outside this band move a chest one difficulty up or down. Ratings take a
+// while to climb, so only students above the starting rating are stepped up and only those below it down
+const STEP_UP_CHANCE = 0.75;
+const STEP_DOWN_CHANCE = 0.4;
+
+export const skillKey = (tag: CurriculumTag) => `${tag.grade}/${tag.chapter}/${tag.topic}`;
+
+// The score, from 0 to 1, a student with this rating is expected to get at a difficulty
+export const expectedScore = (rating: number, difficulty: Difficulty): number =>
+  1 / (1 + Math.pow(10, (DIFFICULTY_RATINGS[difficulty] - rating) / 400));
+
+// Moves the topic's rating towards what the attempt showed; new topics move fastest
+export const updateSkill = (skills: SkillEstimates, question: Question, score: number): SkillEstimates => {
+  const key = skillKey(question);
+  const current: SkillEstimate = skills[key] ?? {
+    grade: question.grade,
+    chapter: question.chapter,
+    topic: question.topic,
+    rating: STARTING_RATING,
+    answered: 0
+  };
+  const k = 64 / (1 + current.answered / 4);
+  return {
+    ...skills,
+    [key]: {
+      ...current,
+      rating: current.rating + k * (score - expectedScore(current.rating, question.difficulty)),
+      answered: current.answered + 1
+    }
+  };
+};
+
+// The rating for a question's topic, or for its whole chapter while the topic itself is new;
+// null until there is enough to go on
+export const ratingFor = (skills: SkillEstimates, tag: CurriculumTag): number | null => {
+  const topic = skills[skillKey(tag)];
+  if (topic && topic.answered >= MIN_EVIDENCE) return topic.rating;
+
+  const chapter = Object.values(skills).filter(skill => skill.grade === tag.grade && skill.chapter === tag.chapter);
+  const answered = chapter.reduce((sum, skill) => sum + skill.answered, 0);
+  if (answered < MIN_EVIDENCE) return null;
+  return chapter.reduce((sum, skill) => sum + skill.rating * skill.answered, 0) / answered;
+};
+
+export const targetDifficulty = (rating: number, difficulty: Difficulty): Difficulty => {
+  const chance = expectedScore(rating, difficulty);
+  const index = DIFFICULTIES.indexOf(difficulty);
+  if (chance >= STEP_UP_CHANCE && rating > STARTING_RATING && index < DIFFICULTIES.length - 1) return DIFFICULTIES[index + 1];
+  if (chance <= STEP_DOWN_CHANCE && rating < STARTING_RATING && index > 0) return DIFFICULTIES[index - 1];
+  return difficulty;
+};
+
+// The question a chest shows when it is opened: its own, unless the student's rating says
+// one step harder or easier would suit them better. Replacements come from the same topic,
+// then the same chapter, and the same seed always gives the same replacement
+export const chooseAdaptiveQuestion = (box: TreasureBox, state: GameState, skills: SkillEstimates): Question => {
+  const rating = ratingFor(skills, box.question);
+  if (rating === null) return box.question;
+  const target = targetDifficulty(rating, box.question.difficulty);
+  if (target === box.question.difficulty) return box.question;
+
+  const inHunt = new Set(state.treasureBoxes.map(other => other.question.id));
+  const random = deriveRandom(state.seed, `adapt:${box.id}:${target}`);
+  const { grade, chapter, topic } = box.question;
+  for (const filter of [{ grade, chapters: [chapter], topics: [topic] }, { grade, chapters: [chapter] }]) {
+    const replacement = getMixedQuestions(target, 3, random, filter).find(question => !inHunt.has(question.id));
+    if (replacement) return replacement;
+  }
+  return box.question;
+};
+
+export const isSkillEstimate = (value: unknown): value is SkillEstimate => {
+  if (typeof value !== 'object' || value === null) return false;
+  const { grade, chapter, topic, rating, answered } = value as Record<string, unknown>;
+  return typeof grade === 'number' && typeof chapter === 'string' && typeof topic === 'string'
+    && typeof rating === 'number' && Number.isFinite(rating) && typeof answered === 'number';
+};
+
+export const loadSkills = (profileId: string): SkillEstimates => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(skillsKey(profileId)) ?? '{}');
+    return Object.fromEntries(Object.values(parsed ?? {}).filter(isSkillEstimate).map(skill => [skillKey(skill), skill]));
+  } catch (error) {
+    console.error('Failed to load skill estimates:', error);
+    return {};
+  }
+};
+
+export const saveSkills = (profileId: string, skills: SkillEstimates) => {
+  localStorage.setItem(skillsKey(profileId), JSON.stringify(skills));
+};
+
+export const clearSkills = (profileId: string) => {
+  localStorage.removeItem(skillsKey(profileId));
+};
@@ -0,0 +1,114 @@
+import { AttemptRecord, Question, QuestionFilter } from '../types/game';
+import { matchesFilter } from '../data/curriculum';
+import { runRequest, STORES } from './database';
+
+export interface AttemptQuery extends QuestionFilter {
+  // Every student on the device when left out
+  profileId?: string;
+  difficulty?: Question['difficulty'];
+  // Attempts made at or after this time
+  since?: number;
+  // Leaves out retries, e.g. to see what students get right unaided
+  firstTriesOnly?: boolean;
+}
+
+export interface AttemptSummary {
+  attempts: number;
+  correct: number;
+  // Share answered correctly, from 0 to 1
+  accuracy: number;
+  averageSeconds: number;
+  averageHints: number;
+}
+
+const DIFFICULTIES: unknown[] = ['easy', 'medium', 'hard'];
+
+export const isAttemptRecord = (value: unknown): value is AttemptRecord => {
+  if (typeof value !== 'object' || value === null) return false;
+  const {
+    id, profileId, questionId, grade, chapter, topic, difficulty, response, isCorrect, score, seconds, hintsUsed, attemptNumber, at
+  } = value as Record<string, unknown>;
+  return typeof id === 'string' && typeof profileId === 'string' && typeof questionId === 'string'
+    && typeof grade === 'number' && typeof chapter === 'string' && typeof topic === 'string'
+    && DIFFICULTIES.includes(difficulty) && response !== undefined && typeof isCorrect === 'boolean'
+    && typeof score === 'number' && typeof seconds === 'number' && typeof hintsUsed === 'number'
+    && typeof attemptNumber === 'number' && typeof at === 'number';
+};
+
+export const createAttemptId = () => `attempt_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
+
+// Every answer each student submits is kept, as the ground for teachers' reports
+export const recordAttempt = async (attempt: AttemptRecord): Promise<void> => {
+  await runRequest(STORES.attempts, 'readwrite', store => store.put(attempt));
+};
+
+// Oldest first
+export const queryAttempts = async (query: AttemptQuery = {}): Promise<AttemptRecord[]> => {
+  const { profileId, difficulty, since, firstTriesOnly, ...filter } = query;
+  const attempts = await runRequest(STORES.attempts, 'readonly', store => (
+    profileId === undefined ? store.getAll() : store.index('profileId').getAll(profileId)
+  ) as IDBRequest<AttemptRecord[]>);
+  return attempts
+    .filter(attempt =>
+      (difficulty === undefined || attempt.difficulty === difficulty)
+      && (since === undefined || attempt.at >= since)
+      && (!firstTriesOnly || attempt.attemptNumber === 1)
+      && matchesFilter(attempt, filter)
+    )
+    .sort((a, b) => a.at - b.at);
+};
+
+export const clearAttempts = async (profileId: string): Promise<void> => {
+  await runRequest(STORES.attempts, 'readwrite', store => {
+    const request = store.index('profileId').openKeyCursor(profileId);
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (cursor) {
+        store.delete(cursor.primaryKey);
+        cursor.continue();
+      }
+    };
+    return request;
+  });
+};
+
+// Swaps a student's whole history for another, e.g. one brought in from a save file
+export const replaceAttempts = async (profileId: string, attempts: AttemptRecord[]): Promise<void> => {
+  await clearAttempts(profileId);
+  await runRequest(STORES.attempts, 'readwrite', store => {
+    attempts.forEach(attempt => store.put({ ...attempt, profileId }));
+    // The transaction only completes once every put above is written
+    return store.count();
+  });
+};
+
+// Totals for each group, e.g. summariseAttempts(attempts, attempt => attempt.topic) for accuracy by topic
+export const summariseAttempts = (
+  attempts: AttemptRecord[],
+  groupBy: (attempt: AttemptRecord) => string
+): Record<string, AttemptSummary> => {
+  const groups: Record<string, AttemptRecord[]> = {};
+  attempts.forEach(attempt => {
+    const key = groupBy(attempt);
+    groups[key] = [...(groups[key] ?? []), attempt];
+  });
+
+  const summaries: Record<string, AttemptSummary> = {};
+  Object.entries(groups).forEach(([key, group]) => {
+    const correct = group.filter(attempt => attempt.isCorrect).length;
+    summaries[key] = {
+      attempts: group.length,
+      correct,
+      accuracy: correct / group.length,
+      averageSeconds: group.reduce((sum, attempt) => sum + attempt.seconds, 0) / group.length,
+      averageHints: group.reduce((sum, attempt) => sum + attempt.hintsUsed, 0) / group.length
+    };
+  });
+  return summaries;
+};
+
+export const accuracyByTopic = async (query: AttemptQuery = {}) =>
+  summariseAttempts(await queryAttempts(query), attempt => attempt.topic);
+
+export const averageTimeByDifficulty = async (query: AttemptQuery = {}) =>
+  summariseAttempts(await queryAttempts(query), attempt => attempt.difficulty);
@@ -0,0 +1,54 @@
+// The game's IndexedDB database, for data too large or too structured for localStorage.
+// Add new stores to STORES and bump DATABASE_VERSION so existing browsers create them.
+
+const DATABASE_NAME = 'treasureHunt';
+const DATABASE_VERSION = 2;
+
+export const STORES = {
+  packDrafts: 'packDrafts',
+  attempts: 'attempts'
+} as const;
+
+type StoreName = typeof STORES[keyof typeof STORES];
+
+// Fields a store's records can be looked up by besides their id
+const INDEXES: Partial<Record<StoreName, string[]>> = {
+  attempts: ['profileId']
+};
+
+const openDatabase = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+    request.onupgradeneeded = () => {
+      const database = request.result;
+      Object.values(STORES).forEach(store => {
+        if (!database.objectStoreNames.contains(store)) {
+          const objectStore = database.createObjectStore(store, { keyPath: 'id' });
+          INDEXES[store]?.forEach(field => objectStore.createIndex(field, field));
+        }
+      });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Runs one request against a store and resolves with its result
+export const runRequest = async <T>(
+  store: StoreName,
+  mode: IDBTransactionMode,
+  makeRequest: (objectStore: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const database = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = database.transaction(store, mode);
+      const request = makeRequest(transaction.objectStore(store));
+      // Resolve once the write is committed, not just queued
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  } finally {
+    database.close();
+  }
+};
@@ -0,0 +1,180 @@
+import { MatchingQuestion, MultipleChoiceQuestion, MultiSelectQuestion, NumericQuestion, OrderingQuestion, Question, QuestionResponse } from '../types/game';
+
+export interface GradeResult {
+  isCorrect: boolean;
+  // Share of the answer that was right, from 0 to 1, used for partial credit
+  score: number;
+  // Why an answer with the right idea was still marked wrong
+  feedback?: string;
+  // The question's feedback for each wrong option picked that has some
+  misconceptions?: { option: number; feedback: string }[];
+}
+
+interface ParsedNumber {
+  value: number;
+  // Set when the student wrote a fraction or mixed number
+  fraction?: { numerator: number; denominator: number };
+}
+
+const right: GradeResult = { isCorrect: true, score: 1 };
+const wrong: GradeResult = { isCorrect: false, score: 0 };
+
+// Differences smaller than this are floating point noise, not a wrong answer
+const EPSILON = 1e-9;
+
+const gcd = (a: number, b: number): number => (b === 0 ? a : gcd(b, a % b));
+
+// Reads "17", "-0.6", ".5", "3/4" or "1 1/2"; null when it isn't a number
+export const parseNumber = (text: string): ParsedNumber | null => {
+  const normalised = text.trim().replace(/−/g, '-').replace(/\s*\/\s*/g, '/');
+
+  if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(normalised)) {
+    return { value: parseFloat(normalised) };
+  }
+
+  const fraction = normalised.match(/^([+-]?)(?:(\d+)\s+)?(\d+)\/(\d+)$/);
+  if (!fraction) return null;
+
+  const sign = fraction[1] === '-' ? -1 : 1;
+  const whole = fraction[2] ? parseInt(fraction[2], 10) : 0;
+  const numerator = parseInt(fraction[3], 10);
+  const denominator = parseInt(fraction[4], 10);
+  if (denominator === 0) return null;
+
+  return {
+    value: sign * (whole + numerator / denominator),
+    fraction: { numerator, denominator }
+  };
+};
+
+const gradeNumeric = (question: NumericQuestion, text: string): GradeResult => {
+  const expected = parseNumber(question.answer);
+  const given = parseNumber(text);
+  if (!expected) {
+    console.error(`Question ${question.id} has an answer that is not a number: ${question.answer}`);
+    return wrong;
+  }
+  if (!given) {
+    return { ...wrong, feedback: 'Write your answer as a number, like 17, 0.6 or 3/4.' };
+  }
+
+  const tolerance = Math.max(question.tolerance ?? 0, EPSILON);
+  if (Math.abs(given.value - expected.value) > tolerance) {
+    return wrong;
+  }
+
+  if (question.acceptUnreduced === false && given.fraction
+    && gcd(given.fraction.numerator, given.fraction.denominator) > 1) {
+    return { ...wrong, feedback: 'Right value, but write the fraction in its simplest form.' };
+  }
+
+  return right;
+};
+
+const withMisconceptions = (
+  result: GradeResult,
+  question: MultipleChoiceQuestion | MultiSelectQuestion,
+  picks: number[],
+  correct: number[]
+): GradeResult => {
+  const misconceptions = picks
+    .filter(option => !correct.includes(option) && question.optionFeedback?.[option])
+    .map(option => ({ option, feedback: question.optionFeedback?.[option] ?? '' }));
+  return misconceptions.length > 0 ? { ...result, misconceptions } : result;
+};
+
+// Each right pick counts for, and each wrong pick against, the share of the answer
+const gradeMultiSelect = (question: MultiSelectQuestion, selected: number[]): GradeResult => {
+  const picks = new Set(selected);
+  const found = question.correctAnswers.filter(index => picks.has(index)).length;
+  const mistakes = picks.size - found;
+  const total = question.correctAnswers.length;
+  if (found === total && mistakes === 0) return right;
+
+  const parts = [`You found ${found} of ${total} correct statements`];
+  if (mistakes > 0) parts.push(`${mistakes} of your picks ${mistakes === 1 ? 'is' : 'are'} wrong`);
+  return withMisconceptions(
+    { isCorrect: false, score: Math.max(0, found - mistakes) / total, feedback: `${parts.join(', but ')}.` },
+    question,
+    selected,
+    question.correctAnswers
+  );
+};
+
+// Longest run of items already in the right order relative to each other
+const longestIncreasingRun = (values: number[]): number => {
+  const tails: number[] = [];
+  values.forEach(value => {
+    let low = 0;
+    let high = tails.length;
+    while (low < high) {
+      const middle = (low + high) >> 1;
+      if (tails[middle] < value) low = middle + 1;
+      else high = middle;
+    }
+    tails[low] = value;
+  });
+  return tails.length;
+};
+
+// Credit for how much of the order is right, so one misplaced item isn't scored as all wrong
+const gradeOrdering = (question: OrderingQuestion, order: number[]): GradeResult => {
+  const total = question.items.length;
+  if (order.length !== total || new Set(order).size !== total) return wrong;
+  if (order.every((item, position) => item === position)) return right;
+
+  const inOrder = longestIncreasingRun(order);
+  return {
+    isCorrect: false,
+    score: inOrder / total,
+    feedback: `${inOrder} of ${total} items are already in the right order.`
+  };
+};
+
+const gradeMatching = (question: MatchingQuestion, matches: number[]): GradeResult => {
+  const total = question.pairs.length;
+  const correct = question.pairs.filter((_, index) => matches[index] === index).length;
+  if (correct === total) return right;
+  return {
+    isCorrect: false,
+    score: correct / total,
+    feedback: `${correct} of ${total} pairs match.`
+  };
+};
+
+export const gradeResponse = (question: Question, response: QuestionResponse): GradeResult => {
+  if (question.type === 'multiple-choice' && response.type === 'multiple-choice') {
+    return response.selected === question.correctAnswer
+      ? right
+      : withMisconceptions(wrong, question, [response.selected], [question.correctAnswer]);
+  }
+  if (question.type === 'numeric' && response.type === 'numeric') {
+    return gradeNumeric(question, response.value);
+  }
+  if (question.type === 'multi-select' && response.type === 'multi-select') {
+    return gradeMultiSelect(question, response.selected);
+  }
+  if (question.type === 'ordering' && response.type === 'ordering') {
+    return gradeOrdering(question, response.order);
+  }
+  if (question.type === 'matching' && response.type === 'matching') {
+    return gradeMatching(question, response.matches);
+  }
+  return wrong;
+};
+
+// The correct answer as it should be shown to the student after they answer
+export const formatCorrectAnswer = (question: Question): string => {
+  switch (question.type) {
+    case 'multiple-choice':
+      return question.options[question.correctAnswer];
+    case 'numeric':
+      return question.unit ? `${question.answer} ${question.unit}` : question.answer;
+    case 'multi-select':
+      return question.correctAnswers.map(index => question.options[index]).join('; ');
+    case 'ordering':
+      return question.items.join(', ');
+    case 'matching':
+      return question.pairs.map(pair => `${pair.left} → ${pair.right}`).join(', ');
+  }
+};
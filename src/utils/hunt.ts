@@ -0,0 +1,166 @@
+import { GameState, HuntConfig, Question, QuestionFilter, TreasureBox } from '../types/game';
+import { countQuestions, getMixedQuestions } from '../data/questions';
+import { deriveRandom, RandomSource } from './random';
+
+type Difficulty = Question['difficulty'];
+
+const HARD_CHEST_ELEVATION = 4;
+// Chests stop being placed this far from spawn, inside the edge of the world
+const MAX_CHEST_DISTANCE = 200;
+
+export const DIFFICULTIES: Difficulty[] = ['easy', 'medium', 'hard'];
+
+export const MIN_CHESTS = 3;
+export const MAX_CHESTS = 15;
+
+// The hunt the game has always had: 4 easy, 3 medium and 2 hard chests from every class
+export const DEFAULT_HUNT_CONFIG: HuntConfig = {
+  chestCount: 9,
+  difficultyMix: { easy: 4, medium: 3, hard: 2 }
+};
+
+// When a difficulty runs out of questions its chests go to the nearest other difficulty
+const BORROW_ORDER: Record<Difficulty, Difficulty[]> = {
+  easy: ['medium', 'hard'],
+  medium: ['easy', 'hard'],
+  hard: ['medium', 'easy']
+};
+
+export const huntFilter = (config: HuntConfig): QuestionFilter => ({
+  grade: config.grade,
+  chapters: config.chapters
+});
+
+// Shares the chests out by the mix, giving leftovers to the largest remainders
+export const splitChests = (chestCount: number, mix: Record<Difficulty, number>): Record<Difficulty, number> => {
+  const total = DIFFICULTIES.reduce((sum, difficulty) => sum + mix[difficulty], 0);
+  const exact = DIFFICULTIES.map(difficulty => (total > 0 ? (chestCount * mix[difficulty]) / total : 0));
+  const counts = exact.map(Math.floor);
+  const byRemainder = DIFFICULTIES.map((_, index) => index)
+    .sort((a, b) => (exact[b] - counts[b]) - (exact[a] - counts[a]));
+  const leftover = chestCount - counts.reduce((sum, count) => sum + count, 0);
+  for (let i = 0; i < leftover; i++) {
+    counts[byRemainder[i]]++;
+  }
+  return { easy: counts[0], medium: counts[1], hard: counts[2] };
+};
+
+// How many chests of each difficulty the hunt will really have once the filter is
+// applied; fewer than asked for when the chosen chapters don't have enough questions
+export const planHunt = (config: HuntConfig): Record<Difficulty, number> => {
+  const wanted = splitChests(config.chestCount, config.difficultyMix);
+  const filter = huntFilter(config);
+  const available = { easy: 0, medium: 0, hard: 0 };
+  DIFFICULTIES.forEach(difficulty => { available[difficulty] = countQuestions(difficulty, filter); });
+
+  const counts = { easy: 0, medium: 0, hard: 0 };
+  DIFFICULTIES.forEach(difficulty => { counts[difficulty] = Math.min(wanted[difficulty], available[difficulty]); });
+  DIFFICULTIES.forEach(difficulty => {
+    let missing = wanted[difficulty] - Math.min(wanted[difficulty], available[difficulty]);
+    BORROW_ORDER[difficulty].forEach(other => {
+      const borrowed = Math.min(missing, available[other] - counts[other]);
+      counts[other] += borrowed;
+      missing -= borrowed;
+    });
+  });
+  return counts;
+};
+
+// Hard chests sit on a pedestal that needs a jump to reach
+export const getChestElevation = (difficulty: Difficulty): number => (difficulty === 'hard' ? HARD_CHEST_ELEVATION : 0);
+
+const createTreasureBoxes = (questions: Question[], random: RandomSource, reviewIds: Set<string>): TreasureBox[] => {
+  // Generate strategic positions based on difficulty
+  const positions: { x: number; y: number }[] = [];
+  
+  // Sort questions by difficulty for strategic placement
+  const sortedQuestions = [...questions].sort((a, b) => {
+    const difficultyOrder = { easy: 0, medium: 1, hard: 2 };
+    return difficultyOrder[a.difficulty] - difficultyOrder[b.difficulty];
+  });
+  
+  for (let i = 0; i < sortedQuestions.length; i++) {
+    let x: number, y: number, tooClose: boolean;
+    const difficulty = sortedQuestions[i].difficulty;
+    let tries = 0;
+    
+    do {
+      // Place easier treasures closer to spawn, harder ones further away
+      let minDistance, maxDistance;
+      if (difficulty === 'easy') {
+        minDistance = 25;
+        maxDistance = 80;
+      } else if (difficulty === 'medium') {
+        minDistance = 60;
+        maxDistance = 140;
+      } else {
+        minDistance = 100;
+        maxDistance = 180;
+      }
+      // A crowded ring lets chests spread further out rather than searching forever
+      maxDistance = Math.min(MAX_CHEST_DISTANCE, maxDistance + Math.floor(tries++ / 50) * 10);
+      
+      const angle = random() * Math.PI * 2;
+      const distance = minDistance + random() * (maxDistance - minDistance);
+      x = Math.cos(angle) * distance;
+      y = Math.sin(angle) * distance;
+      
+      // Check if too close to existing positions
+      tooClose = positions.some(pos => 
+        Math.sqrt(Math.pow(x - pos.x, 2) + Math.pow(y - pos.y, 2)) < 30
+      );
+    } while (tooClose);
+    
+    positions.push({ x, y });
+  }
+
+  return sortedQuestions.map((question, index) => ({
+    id: `box_${index + 1}`,
+    x: positions[index].x,
+    y: positions[index].y,
+    question,
+    isUnlocked: index === 0, // First box is unlocked
+    isCompleted: false,
+    coins: getCoinsForDifficulty(question.difficulty) + (index * 25), // Progressive rewards
+    elevation: getChestElevation(question.difficulty),
+    ...(reviewIds.has(question.id) && { isReview: true })
+  }));
+};
+
+// Draw the questions for one hunt; the same seed and config always give the same hunt.
+// Review questions from the student's own queue come as extra chests on top
+export const createHuntBoxes = (
+  seed: number,
+  config: HuntConfig = DEFAULT_HUNT_CONFIG,
+  reviewQuestions: Question[] = []
+): TreasureBox[] => {
+  const questionRandom = deriveRandom(seed, 'questions');
+  const counts = planHunt(config);
+  const filter = huntFilter(config);
+  const drawn = DIFFICULTIES.flatMap(difficulty => getMixedQuestions(difficulty, counts[difficulty], questionRandom, filter));
+  const reviews = reviewQuestions.filter(review => !drawn.some(question => question.id === review.id));
+  return createTreasureBoxes(
+    [...drawn, ...reviews],
+    deriveRandom(seed, 'chests'),
+    new Set(reviews.map(question => question.id))
+  );
+};
+
+export const getCoinsForDifficulty = (difficulty: string): number => {
+  switch (difficulty) {
+    case 'easy': return 50;
+    case 'medium': return 100;
+    case 'hard': return 200;
+    default: return 50;
+  }
+};
+
+// Later hints give away more of the working, so they cost more
+export const getHintCost = (hintIndex: number): number => (hintIndex + 1) * 10;
+
+// Share of a question's coins and XP still earned after buying hints
+export const getHintRewardShare = (hintsRevealed: number): number => Math.max(0.4, 1 - 0.2 * hintsRevealed);
+
+// The chest whose question is open, if any
+export const getOpenBox = (state: GameState): TreasureBox | undefined =>
+  state.currentQuestion ? state.treasureBoxes.find(box => box.question.id === state.currentQuestion?.id) : undefined;
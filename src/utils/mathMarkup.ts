@@ -0,0 +1,217 @@
+// A small LaTeX subset for question text. Math goes between dollar signs, e.g.
+// "What is $\frac{3}{4} + 2\frac{1}{8}$?" or "Simplify $x^{2} \times x^{3}$".
+
+export type MathNode =
+  | { kind: 'text'; text: string; italic?: boolean }
+  | { kind: 'fraction'; numerator: MathNode[]; denominator: MathNode[] }
+  | { kind: 'superscript'; content: MathNode[] }
+  | { kind: 'subscript'; content: MathNode[] }
+  | { kind: 'sqrt'; content: MathNode[] };
+
+export type MathSegment =
+  | { kind: 'prose'; text: string }
+  | { kind: 'math'; nodes: MathNode[] };
+
+const SYMBOLS: Record<string, string> = {
+  times: '×',
+  div: '÷',
+  pm: '±',
+  cdot: '·',
+  le: '≤',
+  leq: '≤',
+  ge: '≥',
+  geq: '≥',
+  ne: '≠',
+  neq: '≠',
+  approx: '≈',
+  sim: '∼',
+  cong: '≅',
+  pi: 'π',
+  theta: 'θ',
+  alpha: 'α',
+  beta: 'β',
+  angle: '∠',
+  triangle: '△',
+  degree: '°',
+  circ: '°',
+  parallel: '∥',
+  perp: '⊥',
+  infty: '∞',
+  to: '→',
+  rightarrow: '→',
+  ldots: '…',
+  dots: '…',
+  '%': '%',
+  '$': '$',
+  '{': '{',
+  '}': '}',
+  ',': ' ',
+  ' ': ' ',
+  quad: ' '
+};
+
+// Commands that only affect spacing or bracket size in real LaTeX
+const IGNORED_COMMANDS = new Set(['left', 'right', 'displaystyle']);
+
+const FRACTION_COMMANDS = new Set(['frac', 'dfrac', 'tfrac']);
+const TEXT_COMMANDS = new Set(['text', 'mathrm', 'textrm']);
+
+const parseMath = (source: string): MathNode[] => {
+  let index = 0;
+
+  const skipSpaces = () => {
+    while (source[index] === ' ') index++;
+  };
+
+  const readCommandName = () => {
+    const match = source.slice(index).match(/^[a-zA-Z]+/);
+    const name = match ? match[0] : source[index] ?? '';
+    index += name.length;
+    return name;
+  };
+
+  // Raw text up to the matching closing brace, for \text{...}
+  const readRawGroup = () => {
+    skipSpaces();
+    if (source[index] !== '{') return '';
+    let depth = 0;
+    const start = index + 1;
+    for (; index < source.length; index++) {
+      if (source[index] === '{') depth++;
+      if (source[index] === '}' && --depth === 0) break;
+    }
+    const text = source.slice(start, index);
+    index++;
+    return text;
+  };
+
+  // A braced group, or a single character or command
+  const parseArgument = (): MathNode[] => {
+    skipSpaces();
+    if (source[index] === '{') {
+      index++;
+      return parseNodes(true);
+    }
+    if (source[index] === '\\') {
+      index++;
+      return parseCommand();
+    }
+    const char = source[index++] ?? '';
+    return char ? [textNode(char)] : [];
+  };
+
+  const textNode = (char: string): MathNode => {
+    if (/[a-zA-Z]/.test(char)) return { kind: 'text', text: char, italic: true };
+    // A true minus sign lines up with the plus sign
+    return { kind: 'text', text: char === '-' ? '−' : char };
+  };
+
+  const parseCommand = (): MathNode[] => {
+    const name = readCommandName();
+    if (FRACTION_COMMANDS.has(name)) {
+      const numerator = parseArgument();
+      const denominator = parseArgument();
+      return [{ kind: 'fraction', numerator, denominator }];
+    }
+    if (name === 'sqrt') return [{ kind: 'sqrt', content: parseArgument() }];
+    if (TEXT_COMMANDS.has(name)) return [{ kind: 'text', text: readRawGroup() }];
+    if (IGNORED_COMMANDS.has(name)) return [];
+    if (name in SYMBOLS) return [{ kind: 'text', text: SYMBOLS[name] }];
+    // Unknown commands are shown as written rather than dropped
+    return [{ kind: 'text', text: `\\${name}` }];
+  };
+
+  const parseNodes = (inGroup: boolean): MathNode[] => {
+    const nodes: MathNode[] = [];
+    while (index < source.length) {
+      const char = source[index];
+      if (char === '}') {
+        index++;
+        if (inGroup) break;
+        continue;
+      }
+      index++;
+      if (char === '{') {
+        nodes.push(...parseNodes(true));
+      } else if (char === '\\') {
+        nodes.push(...parseCommand());
+      } else if (char === '^') {
+        nodes.push({ kind: 'superscript', content: parseArgument() });
+      } else if (char === '_') {
+        nodes.push({ kind: 'subscript', content: parseArgument() });
+      } else {
+        nodes.push(textNode(char));
+      }
+    }
+    return mergeText(nodes);
+  };
+
+  return parseNodes(false);
+};
+
+// Joins neighbouring characters of the same style so they render as one run
+const mergeText = (nodes: MathNode[]): MathNode[] =>
+  nodes.reduce<MathNode[]>((merged, node) => {
+    const last = merged[merged.length - 1];
+    if (node.kind === 'text' && last?.kind === 'text' && Boolean(last.italic) === Boolean(node.italic)) {
+      merged[merged.length - 1] = { ...last, text: last.text + node.text };
+    } else {
+      merged.push(node);
+    }
+    return merged;
+  }, []);
+
+// Splits text into prose and $...$ math; "\$" is a literal dollar sign in prose
+export const parseMathText = (text: string): MathSegment[] => {
+  const segments: MathSegment[] = [];
+  let prose = '';
+  let index = 0;
+
+  while (index < text.length) {
+    if (text[index] === '\\' && text[index + 1] === '$') {
+      prose += '$';
+      index += 2;
+      continue;
+    }
+    if (text[index] === '$') {
+      // Find the closing dollar that isn't escaped
+      let end = index + 1;
+      while (end < text.length && (text[end] !== '$' || text[end - 1] === '\\')) end++;
+      if (end < text.length) {
+        if (prose) segments.push({ kind: 'prose', text: prose });
+        prose = '';
+        segments.push({ kind: 'math', nodes: parseMath(text.slice(index + 1, end)) });
+        index = end + 1;
+        continue;
+      }
+    }
+    prose += text[index];
+    index++;
+  }
+
+  if (prose) segments.push({ kind: 'prose', text: prose });
+  return segments;
+};
+
+// Readable plain text for places that can't show markup, such as screen readers
+export const nodesToPlainText = (nodes: MathNode[]): string =>
+  nodes.map(node => {
+    switch (node.kind) {
+      case 'text':
+        return node.text;
+      case 'fraction':
+        return `${wrap(node.numerator)}/${wrap(node.denominator)}`;
+      case 'superscript':
+        return `^${wrap(node.content)}`;
+      case 'subscript':
+        return `_${wrap(node.content)}`;
+      case 'sqrt':
+        return `√${wrap(node.content)}`;
+    }
+  }).join('');
+
+// Brackets around anything longer than one number or letter, so "(x+1)/2" stays unambiguous
+const wrap = (nodes: MathNode[]) => {
+  const text = nodesToPlainText(nodes);
+  return text.length > 1 && !/^\d+$/.test(text) ? `(${text})` : text;
+};
@@ -0,0 +1,56 @@
+import { MisconceptionRecord, Question } from '../types/game';
+
+// Wrong options each student picked, kept for teachers to see which mistakes come up most
+const MISCONCEPTIONS_KEY = 'treasureHuntMisconceptions';
+
+// Oldest records are dropped past this so the log can't fill localStorage
+const MAX_RECORDS = 500;
+
+const misconceptionsKey = (profileId: string) => `${MISCONCEPTIONS_KEY}:${profileId}`;
+
+export const isMisconceptionRecord = (value: unknown): value is MisconceptionRecord => {
+  if (typeof value !== 'object' || value === null) return false;
+  const { at, questionId, grade, chapter, topic, option, feedback } = value as Record<string, unknown>;
+  return typeof at === 'number' && typeof questionId === 'string' && typeof grade === 'number'
+    && typeof chapter === 'string' && typeof topic === 'string' && typeof option === 'string' && typeof feedback === 'string';
+};
+
+export const loadMisconceptions = (profileId: string): MisconceptionRecord[] => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(misconceptionsKey(profileId)) ?? '[]');
+    return Array.isArray(parsed) ? parsed.filter(isMisconceptionRecord) : [];
+  } catch (error) {
+    console.error('Failed to load misconception log:', error);
+    return [];
+  }
+};
+
+export const logMisconceptions = (
+  profileId: string,
+  question: Question,
+  misconceptions: { option: number; feedback: string }[],
+  at: number = Date.now()
+) => {
+  if (misconceptions.length === 0 || (question.type !== 'multiple-choice' && question.type !== 'multi-select')) return;
+  const records: MisconceptionRecord[] = misconceptions.map(({ option, feedback }) => ({
+    at,
+    questionId: question.id,
+    grade: question.grade,
+    chapter: question.chapter,
+    topic: question.topic,
+    ...(question.learningOutcome && { learningOutcome: question.learningOutcome }),
+    option: question.options[option],
+    feedback
+  }));
+  const log = [...loadMisconceptions(profileId), ...records].slice(-MAX_RECORDS);
+  localStorage.setItem(misconceptionsKey(profileId), JSON.stringify(log));
+};
+
+// Replaces the whole log, e.g. with one brought in from a save file
+export const saveMisconceptions = (profileId: string, records: MisconceptionRecord[]) => {
+  localStorage.setItem(misconceptionsKey(profileId), JSON.stringify(records.slice(-MAX_RECORDS)));
+};
+
+export const clearMisconceptions = (profileId: string) => {
+  localStorage.removeItem(misconceptionsKey(profileId));
+};
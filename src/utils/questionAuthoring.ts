@@ -0,0 +1,99 @@
+import { Question, QuestionPack, QuestionPackMetadata } from '../types/game';
+import { QUESTION_PACK_FORMAT, QUESTION_PACK_VERSION } from './questionPack';
+
+export const createBlankPack = (): QuestionPack => ({
+  format: QUESTION_PACK_FORMAT,
+  version: QUESTION_PACK_VERSION,
+  metadata: { title: 'New question pack', class: 6, chapter: '', author: '', language: 'en' },
+  questions: []
+});
+
+// IDs such as "ratios_003", taken from the pack title so packs don't clash with each other
+export const nextQuestionId = (pack: QuestionPack): string => {
+  const prefix = pack.metadata.title.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '') || 'question';
+  const taken = new Set(pack.questions.map(question => question.id));
+  let number = pack.questions.length + 1;
+  while (taken.has(`${prefix}_${String(number).padStart(3, '0')}`)) number++;
+  return `${prefix}_${String(number).padStart(3, '0')}`;
+};
+
+// Questions written in the editor belong to the pack's class and chapter
+export const withPackCurriculum = (pack: QuestionPack): QuestionPack => ({
+  ...pack,
+  questions: pack.questions.map(question => ({ ...question, grade: pack.metadata.class, chapter: pack.metadata.chapter }))
+});
+
+export const createBlankQuestion = (id: string, metadata: QuestionPackMetadata): Question => ({
+  id,
+  type: 'multiple-choice',
+  subject: 'Math',
+  difficulty: 'easy',
+  grade: metadata.class,
+  chapter: metadata.chapter,
+  topic: metadata.chapter,
+  question: '',
+  options: ['', '', '', ''],
+  correctAnswer: 0,
+  explanation: ''
+});
+
+// Switches a question to another format, carrying over whatever still makes sense
+export const changeQuestionType = (question: Question, type: Question['type']): Question => {
+  const base = {
+    id: question.id,
+    subject: question.subject,
+    difficulty: question.difficulty,
+    grade: question.grade,
+    chapter: question.chapter,
+    topic: question.topic,
+    ...(question.learningOutcome && { learningOutcome: question.learningOutcome }),
+    question: question.question,
+    ...(question.hints && { hints: question.hints }),
+    explanation: question.explanation,
+    ...(question.figure && { figure: question.figure })
+  };
+  // Feedback follows the options between the two formats that have it
+  const optionFeedback = question.type === 'multiple-choice' || question.type === 'multi-select' ? question.optionFeedback : undefined;
+  const choices = (() => {
+    switch (question.type) {
+      case 'multiple-choice':
+      case 'multi-select':
+        return question.options;
+      case 'ordering':
+        return question.items;
+      case 'matching':
+        return question.pairs.map(pair => pair.left);
+      default:
+        return ['', ''];
+    }
+  })();
+
+  switch (type) {
+    case 'multiple-choice':
+      return {
+        ...base,
+        type,
+        options: choices,
+        correctAnswer: question.type === 'multi-select' ? question.correctAnswers[0] ?? 0 : 0,
+        ...(optionFeedback && { optionFeedback })
+      };
+    case 'multi-select':
+      return {
+        ...base,
+        type,
+        options: choices,
+        correctAnswers: question.type === 'multiple-choice' ? [question.correctAnswer] : [],
+        ...(optionFeedback && { optionFeedback })
+      };
+    case 'ordering':
+      return { ...base, type, items: choices };
+    case 'matching':
+      return {
+        ...base,
+        type,
+        pairs: question.type === 'matching' ? question.pairs : choices.map(left => ({ left, right: '' }))
+      };
+    case 'numeric':
+      return { ...base, type, answer: question.type === 'numeric' ? question.answer : '' };
+  }
+};
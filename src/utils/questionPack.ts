@@ -0,0 +1,517 @@
+import { Question, QuestionPack, QuestionPackMetadata } from '../types/game';
+import { questionBank } from '../data/questions';
+import { parseNumber } from './grading';
+
+// A question pack is a JSON file like this:
+//
+// {
+//   "format": "ncert-treasure-hunt-questions",
+//   "version": 1,
+//   "metadata": { "title": "Ratios", "class": 7, "chapter": "Comparing Quantities", "author": "Ms. Rao", "language": "en" },
+//   "questions": [
+//     {
+//       "id": "rao_ratio_001", "type": "multiple-choice", "subject": "Math", "difficulty": "easy",
+//       "question": "What is $\\frac{6}{8}$ in simplest form?",
+//       "options": ["$\\frac{3}{4}$", "$\\frac{2}{3}$"], "correctAnswer": 0,
+//       "optionFeedback": ["", "You divided the top and bottom by different numbers."],
+//       "hints": ["Divide the top and bottom by the same number."],
+//       "explanation": "Divide the numerator and denominator by 2."
+//     }
+//   ]
+// }
+//
+// Questions take the same fields as the built-in ones in data/questions.ts; hints and
+// option feedback are optional, and the explanation can be a list of steps. Their grade
+// and chapter default to the pack's class and chapter, and their topic to the chapter.
+
+export const QUESTION_PACK_FORMAT = 'ncert-treasure-hunt-questions';
+export const QUESTION_PACK_VERSION = 1;
+
+export interface PackIssue {
+  line: number;
+  message: string;
+}
+
+export type PackValidation =
+  | { ok: true; pack: QuestionPack }
+  | { ok: false; errors: PackIssue[] };
+
+const QUESTION_TYPES: Question['type'][] = ['multiple-choice', 'numeric', 'multi-select', 'ordering', 'matching'];
+const SUBJECTS: Question['subject'][] = ['Math', 'Science', 'History', 'Geography', 'Literature'];
+const DIFFICULTIES: Question['difficulty'][] = ['easy', 'medium', 'hard'];
+const FIGURE_KINDS = ['shapes', 'number-line', 'bar-graph'];
+const SHAPE_KINDS = ['polygon', 'circle', 'segment', 'angle', 'dimension', 'label'];
+// Ticks or grid lines a figure may draw, so a tiny step can't freeze the page
+const MAX_FIGURE_TICKS = 100;
+
+class JsonSyntaxError extends Error {
+  constructor(message: string, public line: number) {
+    super(message);
+  }
+}
+
+// JSON.parse, but also noting the line each value starts on, keyed by a path such as "questions[2].options"
+const parseJsonWithLines = (text: string) => {
+  const lines = new Map<string, number>();
+  let index = 0;
+  let line = 1;
+
+  const fail = (message: string): never => {
+    throw new JsonSyntaxError(message, line);
+  };
+
+  const skipWhitespace = () => {
+    while (index < text.length && /\s/.test(text[index])) {
+      if (text[index] === '\n') line++;
+      index++;
+    }
+  };
+
+  const parseString = (): string => {
+    const match = text.slice(index).match(/^"(?:[^"\\\n]|\\.)*"/);
+    if (!match) return fail('A string is missing its closing quote');
+    index += match[0].length;
+    try {
+      return JSON.parse(match[0]);
+    } catch {
+      return fail(`${match[0]} is not a valid string; check its backslashes`);
+    }
+  };
+
+  const parseObject = (path: string): Record<string, unknown> => {
+    const result: Record<string, unknown> = {};
+    index++;
+    skipWhitespace();
+    if (text[index] === '}') {
+      index++;
+      return result;
+    }
+    for (;;) {
+      skipWhitespace();
+      if (text[index] !== '"') return fail('Expected a property name in double quotes');
+      const key = parseString();
+      skipWhitespace();
+      if (text[index] !== ':') return fail(`Expected ":" after "${key}"`);
+      index++;
+      result[key] = parseValue(path ? `${path}.${key}` : key);
+      skipWhitespace();
+      if (text[index] === '}') {
+        index++;
+        return result;
+      }
+      if (text[index] !== ',') return fail('Expected "," or "}"');
+      index++;
+    }
+  };
+
+  const parseArray = (path: string): unknown[] => {
+    const result: unknown[] = [];
+    index++;
+    skipWhitespace();
+    if (text[index] === ']') {
+      index++;
+      return result;
+    }
+    for (;;) {
+      result.push(parseValue(`${path}[${result.length}]`));
+      skipWhitespace();
+      if (text[index] === ']') {
+        index++;
+        return result;
+      }
+      if (text[index] !== ',') return fail('Expected "," or "]"');
+      index++;
+    }
+  };
+
+  const parseValue = (path: string): unknown => {
+    skipWhitespace();
+    lines.set(path, line);
+    const char = text[index];
+    if (char === '{') return parseObject(path);
+    if (char === '[') return parseArray(path);
+    if (char === '"') return parseString();
+    // Numbers as strict JSON writes them, so e.g. 07 is reported rather than read as 7
+    const literal = text.slice(index).match(/^(-?(0|[1-9]\d*)(\.\d+)?([eE][+-]?\d+)?|true|false|null)/);
+    if (!literal) return fail(char === undefined ? 'The file ends too early' : `Unexpected "${char}"`);
+    index += literal[0].length;
+    try {
+      return JSON.parse(literal[0]);
+    } catch {
+      return fail(`${literal[0]} is not a valid value`);
+    }
+  };
+
+  try {
+    const value = parseValue('');
+    skipWhitespace();
+    if (index < text.length) fail('Unexpected text after the end of the pack');
+    return { value, lines };
+  } catch (error) {
+    // Anything else, e.g. a stack overflow on very deep nesting, still gets a line
+    if (error instanceof JsonSyntaxError) throw error;
+    return fail(error instanceof Error ? error.message : String(error));
+  }
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isText = (value: unknown): value is string => typeof value === 'string' && value.trim().length > 0;
+
+const isIndex = (value: unknown, length: number): value is number =>
+  Number.isInteger(value) && (value as number) >= 0 && (value as number) < length;
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isPoint = (value: unknown) => Array.isArray(value) && value.length === 2 && value.every(isFiniteNumber);
+
+interface FigureProblem {
+  // Within the figure, e.g. "shapes[2]"; "" for the figure itself
+  path: string;
+  message: string;
+}
+
+// Everything wrong with a figure whose kind is known, checked against the fields QuestionFigure draws from
+const checkFigure = (figure: Record<string, unknown>): FigureProblem[] => {
+  const problems: FigureProblem[] = [];
+  const problem = (path: string, message: string) => problems.push({ path, message });
+  const checkPoints = (path: string, shape: Record<string, unknown>, keys: string[]) => {
+    keys.forEach(key => {
+      if (!isPoint(shape[key])) problem(path, `${key} should be a point such as [10, 20].`);
+    });
+  };
+  // Optional text is drawn as it is, so anything other than text would break the figure
+  const checkOptionalText = (path: string, record: Record<string, unknown>, key: string) => {
+    if (record[key] !== undefined && !isText(record[key])) problem(path ? `${path}.${key}` : key, `${key} should be some text.`);
+  };
+
+  checkOptionalText('', figure, 'alt');
+  switch (figure.kind) {
+    case 'shapes':
+      if (!isFiniteNumber(figure.width) || figure.width <= 0 || !isFiniteNumber(figure.height) || figure.height <= 0) {
+        problem('', 'a shapes figure needs a positive "width" and "height".');
+      }
+      if (!Array.isArray(figure.shapes) || figure.shapes.length === 0) {
+        problem('shapes', 'a shapes figure needs a "shapes" list with at least one shape.');
+        break;
+      }
+      figure.shapes.forEach((shape, index) => {
+        const path = `shapes[${index}]`;
+        if (!isRecord(shape) || !SHAPE_KINDS.includes(shape.kind as string)) {
+          problem(path, `shape ${index + 1} needs a "kind" of ${SHAPE_KINDS.join(', ')}.`);
+          return;
+        }
+        switch (shape.kind) {
+          case 'polygon':
+            if (!Array.isArray(shape.points) || shape.points.length < 3 || !shape.points.every(isPoint)) {
+              problem(path, 'a polygon needs at least three points such as [10, 20].');
+            }
+            break;
+          case 'circle':
+            checkPoints(path, shape, ['center']);
+            if (!isFiniteNumber(shape.radius) || shape.radius <= 0) problem(path, 'a circle needs a positive "radius".');
+            break;
+          case 'segment':
+            checkPoints(path, shape, ['from', 'to']);
+            checkOptionalText(path, shape, 'label');
+            break;
+          case 'angle':
+            checkPoints(path, shape, ['vertex', 'from', 'to']);
+            checkOptionalText(path, shape, 'label');
+            break;
+          case 'dimension':
+            checkPoints(path, shape, ['from', 'to']);
+            if (!isText(shape.label)) problem(path, 'a dimension needs a "label".');
+            break;
+          case 'label':
+            checkPoints(path, shape, ['at']);
+            if (!isText(shape.text)) problem(path, 'a label needs some "text".');
+            break;
+        }
+      });
+      break;
+    case 'number-line': {
+      const { min, max, step = 1 } = figure;
+      if (!isFiniteNumber(min) || !isFiniteNumber(max) || min >= max) {
+        problem('', 'a number line needs numbers "min" and "max", with min below max.');
+      } else if (!isFiniteNumber(step) || step <= 0) {
+        problem('step', '"step" should be a positive number.');
+      } else if ((max - min) / step > MAX_FIGURE_TICKS) {
+        problem('step', `"step" is too small; the line would have more than ${MAX_FIGURE_TICKS} ticks.`);
+      }
+      if (figure.points !== undefined) {
+        if (!Array.isArray(figure.points)) {
+          problem('points', '"points" should list objects with a number "value".');
+        } else {
+          figure.points.forEach((point, index) => {
+            const path = `points[${index}]`;
+            if (!isRecord(point) || !isFiniteNumber(point.value)) {
+              problem(path, `point ${index + 1} needs a number "value".`);
+            } else {
+              checkOptionalText(path, point, 'label');
+            }
+          });
+        }
+      }
+      if (figure.jumps !== undefined) {
+        if (!Array.isArray(figure.jumps)) {
+          problem('jumps', '"jumps" should list objects with numbers "from" and "to".');
+        } else {
+          figure.jumps.forEach((jump, index) => {
+            const path = `jumps[${index}]`;
+            if (!isRecord(jump) || !isFiniteNumber(jump.from) || !isFiniteNumber(jump.to)) {
+              problem(path, `jump ${index + 1} needs numbers "from" and "to".`);
+            } else {
+              checkOptionalText(path, jump, 'label');
+            }
+          });
+        }
+      }
+      break;
+    }
+    case 'bar-graph': {
+      checkOptionalText('', figure, 'xLabel');
+      checkOptionalText('', figure, 'yLabel');
+      if (!Array.isArray(figure.bars) || figure.bars.length === 0) {
+        problem('bars', 'a bar graph needs a "bars" list with at least one bar.');
+        break;
+      }
+      figure.bars.forEach((bar, index) => {
+        if (!isRecord(bar) || !isText(bar.label) || !isFiniteNumber(bar.value) || bar.value < 0) {
+          problem(`bars[${index}]`, `bar ${index + 1} needs a "label" and a "value" of 0 or more.`);
+        }
+      });
+      const largest = Math.max(0, ...figure.bars.map(bar => (isRecord(bar) && isFiniteNumber(bar.value) ? bar.value : 0)));
+      if (figure.step !== undefined) {
+        if (!isFiniteNumber(figure.step) || figure.step <= 0) {
+          problem('step', '"step" should be a positive number.');
+        } else if (largest / figure.step > MAX_FIGURE_TICKS) {
+          problem('step', `"step" is too small; the graph would have more than ${MAX_FIGURE_TICKS} grid lines.`);
+        }
+      }
+      break;
+    }
+  }
+  return problems;
+};
+
+// Checks a pack from top to bottom and reports every problem, not just the first.
+// otherPacks are the packs already loaded, so their question IDs count as taken.
+export const validateQuestionPack = (text: string, otherPacks: QuestionPack[] = []): PackValidation => {
+  let parsed: ReturnType<typeof parseJsonWithLines>;
+  try {
+    parsed = parseJsonWithLines(text);
+  } catch (error) {
+    const line = error instanceof JsonSyntaxError ? error.line : 1;
+    const message = error instanceof Error ? error.message : String(error);
+    return { ok: false, errors: [{ line, message: `This file is not valid JSON: ${message}.` }] };
+  }
+
+  const { value, lines } = parsed;
+  const errors: PackIssue[] = [];
+  // Falls back to the nearest enclosing value that has a line, e.g. for a missing field
+  const lineOf = (path: string): number => {
+    for (let current = path; ; current = current.replace(/(^|\.)[^.[\]]+$|\[\d+\]$/, '')) {
+      const line = lines.get(current);
+      if (line !== undefined) return line;
+      if (!current) return 1;
+    }
+  };
+  const report = (path: string, message: string) => errors.push({ line: lineOf(path), message });
+
+  if (!isRecord(value) || value.format !== QUESTION_PACK_FORMAT) {
+    return { ok: false, errors: [{ line: lineOf('format'), message: `This is not a question pack; its "format" should be "${QUESTION_PACK_FORMAT}".` }] };
+  }
+  if (!Number.isInteger(value.version) || (value.version as number) < 1) {
+    report('version', '"version" should be a whole number such as 1.');
+  } else if ((value.version as number) > QUESTION_PACK_VERSION) {
+    return {
+      ok: false,
+      errors: [{ line: lineOf('version'), message: `This pack is version ${value.version}, made for a newer version of the game. This game reads packs up to version ${QUESTION_PACK_VERSION}.` }]
+    };
+  }
+
+  const metadata = value.metadata;
+  if (!isRecord(metadata)) {
+    report('metadata', 'The pack needs a "metadata" object with title, class, chapter, author and language.');
+  } else {
+    (['title', 'chapter', 'author', 'language'] as const).forEach(field => {
+      if (!isText(metadata[field])) report(`metadata.${field}`, `metadata.${field} should be some text.`);
+    });
+    if (!Number.isInteger(metadata.class) || (metadata.class as number) < 1 || (metadata.class as number) > 12) {
+      report('metadata.class', 'metadata.class should be a class number from 1 to 12.');
+    }
+  }
+
+  // Where each question ID is already used, for the duplicate messages
+  const takenIds = new Map<string, string>();
+  questionBank.forEach(question => takenIds.set(question.id, 'a built-in question'));
+  otherPacks.forEach(pack =>
+    pack.questions.forEach(question => takenIds.set(question.id, `the pack "${pack.metadata.title}"`))
+  );
+
+  if (!Array.isArray(value.questions) || value.questions.length === 0) {
+    report('questions', 'The pack needs a "questions" list with at least one question.');
+  } else {
+    value.questions.forEach((question, index) => {
+      const path = `questions[${index}]`;
+      const name = isRecord(question) && isText(question.id) ? `Question "${question.id}"` : `Question ${index + 1}`;
+      if (!isRecord(question)) {
+        report(path, `${name} should be an object.`);
+        return;
+      }
+      const field = (key: string) => `${path}.${key}`;
+      const problem = (key: string, message: string) => report(field(key), `${name}: ${message}`);
+
+      if (!isText(question.id)) {
+        problem('id', 'needs an "id".');
+      } else if (question.id.startsWith('gen_')) {
+        problem('id', 'IDs starting with "gen_" are kept for generated questions.');
+      } else if (takenIds.has(question.id)) {
+        problem('id', `the ID is already used by ${takenIds.get(question.id)}.`);
+      } else {
+        takenIds.set(question.id, `question ${index + 1} on line ${lineOf(path)}`);
+      }
+
+      if (!SUBJECTS.includes(question.subject as Question['subject'])) {
+        problem('subject', `unknown subject ${JSON.stringify(question.subject)}; use one of ${SUBJECTS.join(', ')}.`);
+      }
+      if (!DIFFICULTIES.includes(question.difficulty as Question['difficulty'])) {
+        problem('difficulty', `unknown difficulty ${JSON.stringify(question.difficulty)}; use easy, medium or hard.`);
+      }
+      if (!isText(question.question)) problem('question', 'the question text is empty.');
+      if (question.figure !== undefined) {
+        if (!(isRecord(question.figure) && FIGURE_KINDS.includes(question.figure.kind as string))) {
+          problem('figure', `a figure needs a "kind" of ${FIGURE_KINDS.join(', ')}.`);
+        } else {
+          checkFigure(question.figure).forEach(({ path, message }) =>
+            report(path ? `${field('figure')}.${path}` : field('figure'), `${name}: ${message}`)
+          );
+        }
+      }
+      if (question.grade !== undefined && !(Number.isInteger(question.grade) && (question.grade as number) >= 1 && (question.grade as number) <= 12)) {
+        problem('grade', 'the grade should be a class number from 1 to 12.');
+      }
+      (['chapter', 'topic', 'learningOutcome'] as const).forEach(key => {
+        if (question[key] !== undefined && !isText(question[key])) problem(key, `${key} should be some text.`);
+      });
+
+      const checkTextList = (key: string, minimum: number) => {
+        const list = question[key];
+        if (!Array.isArray(list) || list.length < minimum) {
+          problem(key, `"${key}" should list at least ${minimum} entries.`);
+          return 0;
+        }
+        list.forEach((entry, position) => {
+          if (!isText(entry)) report(`${field(key)}[${position}]`, `${name}: ${key} entry ${position + 1} is empty.`);
+        });
+        return list.length;
+      };
+      if (question.hints !== undefined) checkTextList('hints', 1);
+      // A worked solution is a list of steps
+      if (Array.isArray(question.explanation)) checkTextList('explanation', 1);
+      else if (!isText(question.explanation)) problem('explanation', 'the explanation is empty.');
+
+      // One entry per option, with "" where there is nothing to say
+      const checkOptionFeedback = (count: number) => {
+        const list = question.optionFeedback;
+        if (list === undefined || count === 0) return;
+        if (!Array.isArray(list) || list.length !== count) {
+          problem('optionFeedback', `"optionFeedback" should have ${count} entries, one for each option; use "" for options without feedback.`);
+          return;
+        }
+        list.forEach((entry, position) => {
+          if (typeof entry !== 'string') report(`${field('optionFeedback')}[${position}]`, `${name}: feedback ${position + 1} should be text.`);
+        });
+      };
+
+      switch (question.type) {
+        case 'multiple-choice': {
+          const count = checkTextList('options', 2);
+          checkOptionFeedback(count);
+          if (count > 0 && !isIndex(question.correctAnswer, count)) {
+            problem('correctAnswer', `correctAnswer ${JSON.stringify(question.correctAnswer)} is out of range; options are numbered 0 to ${count - 1}.`);
+          }
+          break;
+        }
+        case 'multi-select': {
+          const count = checkTextList('options', 2);
+          checkOptionFeedback(count);
+          const answers = question.correctAnswers;
+          if (!Array.isArray(answers) || answers.length === 0) {
+            problem('correctAnswers', '"correctAnswers" should list the number of every correct option.');
+          } else if (count > 0) {
+            answers.forEach((answer, position) => {
+              if (!isIndex(answer, count)) {
+                report(`${field('correctAnswers')}[${position}]`, `${name}: correct answer ${JSON.stringify(answer)} is out of range; options are numbered 0 to ${count - 1}.`);
+              } else if (answers.indexOf(answer) !== position) {
+                report(`${field('correctAnswers')}[${position}]`, `${name}: option ${answer} is listed twice.`);
+              }
+            });
+          }
+          break;
+        }
+        case 'numeric':
+          if (typeof question.answer !== 'string' || !parseNumber(question.answer)) {
+            problem('answer', 'the answer should be a number written as text, such as "17", "0.6" or "3/4".');
+          }
+          if (question.tolerance !== undefined && !(typeof question.tolerance === 'number' && question.tolerance >= 0)) {
+            problem('tolerance', 'the tolerance should be a number of 0 or more.');
+          }
+          if (question.acceptUnreduced !== undefined && typeof question.acceptUnreduced !== 'boolean') {
+            problem('acceptUnreduced', 'acceptUnreduced should be true or false.');
+          }
+          if (question.unit !== undefined && typeof question.unit !== 'string') problem('unit', 'the unit should be text.');
+          break;
+        case 'ordering':
+          checkTextList('items', 2);
+          break;
+        case 'matching': {
+          const pairs = question.pairs;
+          if (!Array.isArray(pairs) || pairs.length < 2) {
+            problem('pairs', '"pairs" should list at least 2 pairs.');
+            break;
+          }
+          pairs.forEach((pair, position) => {
+            if (!isRecord(pair) || !isText(pair.left) || !isText(pair.right)) {
+              report(`${field('pairs')}[${position}]`, `${name}: pair ${position + 1} needs a "left" and a "right".`);
+            }
+          });
+          break;
+        }
+        default:
+          problem('type', `unknown type ${JSON.stringify(question.type)}; use one of ${QUESTION_TYPES.join(', ')}.`);
+      }
+    });
+  }
+
+  if (errors.length > 0) {
+    return { ok: false, errors: errors.sort((a, b) => a.line - b.line) };
+  }
+  const packMetadata = metadata as unknown as QuestionPackMetadata;
+  return {
+    ok: true,
+    pack: {
+      format: QUESTION_PACK_FORMAT,
+      version: value.version as number,
+      metadata: packMetadata,
+      questions: (value.questions as Question[]).map(question => ({
+        ...question,
+        grade: question.grade ?? packMetadata.class,
+        chapter: question.chapter ?? packMetadata.chapter,
+        topic: question.topic ?? question.chapter ?? packMetadata.chapter
+      }))
+    }
+  };
+};
+
+export const downloadQuestionPack = (pack: QuestionPack) => {
+  const blob = new Blob([JSON.stringify(pack, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${pack.metadata.title.replace(/[^a-z0-9]+/gi, '-').toLowerCase() || 'question-pack'}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
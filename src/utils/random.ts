@@ -0,0 +1,58 @@
+// Returns a float in [0, 1), like Math.random
+export type RandomSource = () => number;
+
+// mulberry32: tiny, fast and good enough for level generation
+export const createRandom = (seed: number): RandomSource => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// FNV-1a, used to derive independent streams from one seed
+export const hashSeed = (text: string): number => {
+  let hash = 0x811C9DC5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// Separate generator per purpose, so adding a tree never moves a chest
+export const deriveRandom = (seed: number, label: string): RandomSource =>
+  createRandom(hashSeed(`${seed}:${label}`));
+
+export const generateSeed = (): number => Math.floor(Math.random() * 0x100000000) >>> 0;
+
+// Short code a teacher can write on the board, e.g. "1Z4K9QX"
+export const seedToCode = (seed: number): string =>
+  (seed >>> 0).toString(36).toUpperCase().padStart(7, '0');
+
+export const codeToSeed = (code: string): number | null => {
+  const normalized = code.trim().toUpperCase();
+  if (!/^[0-9A-Z]{1,7}$/.test(normalized)) return null;
+  const seed = parseInt(normalized, 36);
+  return seed <= 0xFFFFFFFF ? seed : null;
+};
+
+// Fisher-Yates shuffle into a new array
+export const shuffle = <T>(items: T[], random: RandomSource): T[] => {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+};
+
+// Whole number from min to max, both included
+export const randomInt = (random: RandomSource, min: number, max: number): number =>
+  min + Math.floor(random() * (max - min + 1));
+
+export const pick = <T>(items: readonly T[], random: RandomSource): T =>
+  items[Math.floor(random() * items.length)];
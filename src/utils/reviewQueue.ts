@@ -0,0 +1,94 @@
+import { Question, QuestionFilter, ReviewAttempt, ReviewItem } from '../types/game';
+import { getQuestionById } from '../data/questions';
+import { matchesFilter } from '../data/curriculum';
+
+type Difficulty = Question['difficulty'];
+
+const REVIEW_KEY = 'treasureHuntReview';
+
+const reviewKey = (profileId: string) => `${REVIEW_KEY}:${profileId}`;
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Days before a question in each Leitner box comes back; the first box waits only for the
+// next hunt, and a question that passes the last box leaves the queue
+const BOX_INTERVALS = [0, 1, 3, 7, 16];
+
+// A right answer slower than this is still shaky
+const SLOW_SECONDS: Record<Difficulty, number> = { easy: 45, medium: 90, hard: 150 };
+
+export const MAX_REVIEW_CHESTS = 3;
+
+const isConfident = (attempt: ReviewAttempt, difficulty: Difficulty) =>
+  attempt.isCorrect && attempt.attempts === 1 && attempt.seconds <= SLOW_SECONDS[difficulty];
+
+// Replays the attempt history through the boxes: a miss goes back to the first box, a quick
+// first-try answer moves up one, and a slow or second-try answer stays where it is
+export const leitnerBox = (history: ReviewAttempt[], difficulty: Difficulty): number =>
+  history.reduce((box, attempt) => {
+    if (!attempt.isCorrect) return 0;
+    return isConfident(attempt, difficulty) ? box + 1 : box;
+  }, 0);
+
+export const nextReviewAt = (history: ReviewAttempt[], difficulty: Difficulty): number =>
+  history[history.length - 1].at + BOX_INTERVALS[Math.min(leitnerBox(history, difficulty), BOX_INTERVALS.length - 1)] * DAY;
+
+// Adds a finished question to the queue: new ones only when missed or slow, queued ones whatever the result
+export const recordReview = (queue: ReviewItem[], question: Question, attempt: ReviewAttempt): ReviewItem[] => {
+  const queued = queue.find(item => item.questionId === question.id);
+  if (!queued) {
+    return isConfident(attempt, question.difficulty)
+      ? queue
+      : [...queue, { questionId: question.id, history: [attempt] }];
+  }
+
+  const history = [...queued.history, attempt];
+  const rest = queue.filter(item => item !== queued);
+  return leitnerBox(history, question.difficulty) >= BOX_INTERVALS.length
+    ? rest
+    : [...rest, { ...queued, history }];
+};
+
+// Questions due for review that fit the hunt, longest overdue first
+export const dueReviewQuestions = (queue: ReviewItem[], filter: QuestionFilter, now: number = Date.now()): Question[] =>
+  queue
+    .flatMap(item => {
+      const question = getQuestionById(item.questionId);
+      return question && matchesFilter(question, filter)
+        ? [{ question, dueAt: nextReviewAt(item.history, question.difficulty) }]
+        : [];
+    })
+    .filter(({ dueAt }) => dueAt <= now)
+    .sort((a, b) => a.dueAt - b.dueAt)
+    .slice(0, MAX_REVIEW_CHESTS)
+    .map(({ question }) => question);
+
+const isReviewAttempt = (value: unknown): value is ReviewAttempt => {
+  if (typeof value !== 'object' || value === null) return false;
+  const { at, attempts, isCorrect, seconds } = value as Record<string, unknown>;
+  return typeof at === 'number' && typeof attempts === 'number' && typeof isCorrect === 'boolean' && typeof seconds === 'number';
+};
+
+export const isReviewItem = (value: unknown): value is ReviewItem => {
+  if (typeof value !== 'object' || value === null) return false;
+  const { questionId, history } = value as Record<string, unknown>;
+  return typeof questionId === 'string' && Array.isArray(history) && history.length > 0 && history.every(isReviewAttempt);
+};
+
+export const loadReviewQueue = (profileId: string): ReviewItem[] => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(reviewKey(profileId)) ?? '[]');
+    return Array.isArray(parsed) ? parsed.filter(isReviewItem) : [];
+  } catch (error) {
+    console.error('Failed to load review queue:', error);
+    return [];
+  }
+};
+
+export const saveReviewQueue = (profileId: string, queue: ReviewItem[]) => {
+  localStorage.setItem(reviewKey(profileId), JSON.stringify(queue));
+};
+
+export const clearReviewQueue = (profileId: string) => {
+  localStorage.removeItem(reviewKey(profileId));
+};
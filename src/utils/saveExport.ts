@@ -0,0 +1,130 @@
+import { AttemptRecord, GameState, MisconceptionRecord, Profile, ReviewItem, SkillEstimates } from '../types/game';
+import { createSaveFile, restoreSaveFile, SAVE_VERSION, SaveFile } from './saveGame';
+import { hashSeed } from './random';
+import { isSkillEstimate, loadSkills, skillKey } from './adaptive';
+import { isReviewItem, loadReviewQueue } from './reviewQueue';
+import { isMisconceptionRecord, loadMisconceptions } from './misconceptionLog';
+import { isAttemptRecord, queryAttempts } from './attemptHistory';
+
+const EXPORT_FORMAT = 'ncert-treasure-hunt-save';
+
+// What the game has learned about the student, kept apart from the save but moved with it
+export interface LearningRecords {
+  skills: SkillEstimates;
+  reviewQueue: ReviewItem[];
+  misconceptions: MisconceptionRecord[];
+  attempts: AttemptRecord[];
+}
+
+// What goes into a downloaded save: the save itself, who it belongs to, their learning records
+// and a checksum over all three
+interface SaveExport {
+  format: typeof EXPORT_FORMAT;
+  exportedAt: number;
+  profile: Pick<Profile, 'name' | 'color'>;
+  save: SaveFile;
+  learning: LearningRecords;
+  checksum: string;
+}
+
+export type SaveImportResult =
+  // Saves exported before learning records were added have none
+  | { ok: true; state: GameState; learning: LearningRecords | null; profileName: string; exportedAt: number }
+  | { ok: false; error: string };
+
+// Catches files that were damaged or edited by hand; it is not meant to stop a determined cheat.
+// JSON.stringify leaves out an undefined learning, so older exports still match
+const computeChecksum = (profile: unknown, save: unknown, learning: unknown) =>
+  hashSeed(JSON.stringify({ profile, save, learning })).toString(16).padStart(8, '0');
+
+const loadLearningRecords = async (profileId: string): Promise<LearningRecords> => {
+  let attempts: AttemptRecord[] = [];
+  try {
+    attempts = await queryAttempts({ profileId });
+  } catch (error) {
+    console.error('Failed to load attempt history for export:', error);
+  }
+  return {
+    skills: loadSkills(profileId),
+    reviewQueue: loadReviewQueue(profileId),
+    misconceptions: loadMisconceptions(profileId),
+    attempts
+  };
+};
+
+// Keeps whatever in an imported file's learning records is well formed
+const parseLearningRecords = (value: unknown): LearningRecords | null => {
+  if (typeof value !== 'object' || value === null) return null;
+  const { skills, reviewQueue, misconceptions, attempts } = value as Record<string, unknown>;
+  const list = (items: unknown) => (Array.isArray(items) ? items : []);
+  return {
+    skills: Object.fromEntries(
+      Object.values(typeof skills === 'object' && skills !== null ? skills : {})
+        .filter(isSkillEstimate)
+        .map(skill => [skillKey(skill), skill])
+    ),
+    reviewQueue: list(reviewQueue).filter(isReviewItem),
+    misconceptions: list(misconceptions).filter(isMisconceptionRecord),
+    attempts: list(attempts).filter(isAttemptRecord)
+  };
+};
+
+export const createSaveExport = async (state: GameState, profile: Profile): Promise<string> => {
+  const owner = { name: profile.name, color: profile.color };
+  const save = createSaveFile(state);
+  const learning = await loadLearningRecords(profile.id);
+  const saveExport: SaveExport = {
+    format: EXPORT_FORMAT,
+    exportedAt: Date.now(),
+    profile: owner,
+    save,
+    learning,
+    checksum: computeChecksum(owner, save, learning)
+  };
+  return JSON.stringify(saveExport, null, 2);
+};
+
+export const downloadSaveExport = async (state: GameState, profile: Profile) => {
+  const blob = new Blob([await createSaveExport(state, profile)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  const date = new Date().toISOString().slice(0, 10);
+  link.href = url;
+  link.download = `treasure-hunt-${profile.name.replace(/[^a-z0-9]+/gi, '-').toLowerCase()}-${date}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// Checks a downloaded save from top to bottom without touching the current game
+export const parseSaveExport = (text: string): SaveImportResult => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return { ok: false, error: "This file isn't a save file. It could not be read as JSON." };
+  }
+
+  if (typeof parsed !== 'object' || parsed === null || (parsed as Record<string, unknown>).format !== EXPORT_FORMAT) {
+    return { ok: false, error: "This file isn't a Treasure Hunt save file." };
+  }
+
+  const { profile, save, learning, checksum, exportedAt } = parsed as Record<string, unknown>;
+  if (typeof checksum !== 'string' || checksum !== computeChecksum(profile, save, learning)) {
+    return { ok: false, error: 'This save file has been changed or damaged since it was exported.' };
+  }
+
+  const version = (save as Record<string, unknown> | null)?.version;
+  if (typeof version === 'number' && version > SAVE_VERSION) {
+    return { ok: false, error: 'This save file was made by a newer version of the game.' };
+  }
+
+  const state = restoreSaveFile(save);
+  if (!state) {
+    return { ok: false, error: 'This save file is missing parts of the game and cannot be loaded.' };
+  }
+
+  const profileName = typeof (profile as Record<string, unknown> | null)?.name === 'string'
+    ? (profile as Record<string, string>).name
+    : 'Unknown player';
+  return { ok: true, state, learning: parseLearningRecords(learning), profileName, exportedAt: typeof exportedAt === 'number' ? exportedAt : 0 };
+};
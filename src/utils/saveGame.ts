@@ -0,0 +1,255 @@
+import { Environment, GameState, HuntConfig, Player, Question, TreasureBox } from '../types/game';
+import { environmentOrder } from '../data/environments';
+import { getQuestionById, getQuestionsByDifficulty } from '../data/questions';
+import { createHuntBoxes, DEFAULT_HUNT_CONFIG, DIFFICULTIES, huntFilter, MAX_CHESTS, MIN_CHESTS } from './hunt';
+import { deriveRandom, generateSeed } from './random';
+
+// Saves from before profiles all lived under this one key
+const LEGACY_SAVE_KEY = 'treasureHuntSave';
+
+const saveKey = (profileId: string) => `${LEGACY_SAVE_KEY}:${profileId}`;
+
+export const SAVE_VERSION = 2;
+
+// A chest as it was generated, with its question stored by ID
+interface SavedBox {
+  id: string;
+  x: number;
+  y: number;
+  elevation: number;
+  coins: number;
+  questionId: string;
+  difficulty: Question['difficulty'];
+  isUnlocked: boolean;
+  isCompleted: boolean;
+  isReview?: boolean;
+  hintsRevealed?: number;
+}
+
+export interface SaveFile {
+  version: typeof SAVE_VERSION;
+  savedAt: number;
+  environment: Environment;
+  seed: number;
+  config: HuntConfig;
+  hintsEnabled: boolean;
+  player: Player;
+  boxes: SavedBox[];
+}
+
+type SaveData = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is SaveData =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+const isDifficulty = (value: unknown): value is Question['difficulty'] =>
+  value === 'easy' || value === 'medium' || value === 'hard';
+
+const isEnvironment = (value: unknown): value is Environment =>
+  environmentOrder.includes(value as Environment);
+
+const toSavedBox = (box: TreasureBox): SavedBox => ({
+  id: box.id,
+  x: box.x,
+  y: box.y,
+  elevation: box.elevation,
+  coins: box.coins,
+  questionId: box.question.id,
+  difficulty: box.question.difficulty,
+  isUnlocked: box.isUnlocked,
+  isCompleted: box.isCompleted,
+  ...(box.isReview && { isReview: true }),
+  ...(box.hintsRevealed && { hintsRevealed: box.hintsRevealed })
+});
+
+// Each entry upgrades a save from its key version to the next one
+const migrations: Record<number, (data: SaveData) => SaveData> = {
+  // Version 0 only kept lists of unlocked and completed box IDs, so lay the hunt
+  // out again from its seed (saves from before seeds get a fresh one) and reapply them
+  0: data => {
+    const seed = isNumber(data.seed) ? data.seed : generateSeed();
+    const completed = isStringArray(data.completedBoxes) ? data.completedBoxes : [];
+    const unlocked = isStringArray(data.unlockedBoxes) ? data.unlockedBoxes : [];
+    return {
+      version: 1,
+      savedAt: data.timestamp,
+      environment: isEnvironment(data.environment) ? data.environment : 'jungle',
+      seed,
+      hintsEnabled: true,
+      player: data.player,
+      boxes: createHuntBoxes(seed).map(box => toSavedBox({
+        ...box,
+        isUnlocked: unlocked.includes(box.id),
+        isCompleted: completed.includes(box.id)
+      }))
+    };
+  },
+  // Version 1 came before the start screen, when every hunt was the default one
+  1: data => ({ ...data, version: 2, config: DEFAULT_HUNT_CONFIG })
+};
+
+const migrate = (data: SaveData): SaveData | null => {
+  let current = data;
+  let version = isNumber(current.version) ? current.version : 0;
+  while (version < SAVE_VERSION) {
+    const upgrade = migrations[version];
+    if (!upgrade) return null;
+    current = upgrade(current);
+    version = isNumber(current.version) ? current.version : version + 1;
+  }
+  return version === SAVE_VERSION ? current : null;
+};
+
+const readPlayer = (value: unknown): Player | null => {
+  if (!isRecord(value)) return null;
+  if (!isNumber(value.coins) || !isNumber(value.xp) || !isNumber(value.level)) return null;
+  return {
+    x: isNumber(value.x) ? value.x : 0,
+    y: isNumber(value.y) ? value.y : 0,
+    coins: value.coins,
+    xp: value.xp,
+    level: value.level,
+    completedBoxes: isStringArray(value.completedBoxes) ? value.completedBoxes : []
+  };
+};
+
+// A config that can't be used falls back to the default; it only shapes worlds still to come
+const readHuntConfig = (value: unknown): HuntConfig => {
+  if (!isRecord(value) || !isNumber(value.chestCount) || !isRecord(value.difficultyMix)) return DEFAULT_HUNT_CONFIG;
+  const mix = value.difficultyMix;
+  if (!DIFFICULTIES.every(difficulty => isNumber(mix[difficulty]) && (mix[difficulty] as number) >= 0)) return DEFAULT_HUNT_CONFIG;
+  const difficultyMix = { easy: mix.easy as number, medium: mix.medium as number, hard: mix.hard as number };
+  if (difficultyMix.easy + difficultyMix.medium + difficultyMix.hard === 0) return DEFAULT_HUNT_CONFIG;
+
+  return {
+    ...(isNumber(value.grade) && { grade: value.grade }),
+    ...(isStringArray(value.chapters) && { chapters: value.chapters }),
+    chestCount: Math.min(MAX_CHESTS, Math.max(MIN_CHESTS, Math.round(value.chestCount))),
+    difficultyMix
+  };
+};
+
+const readBox = (value: unknown): SavedBox | null => {
+  if (!isRecord(value)) return null;
+  const { id, x, y, elevation, coins, questionId, difficulty, isUnlocked, isCompleted, isReview, hintsRevealed } = value;
+  if (typeof id !== 'string' || typeof questionId !== 'string' || !isDifficulty(difficulty)) return null;
+  if (!isNumber(x) || !isNumber(y) || !isNumber(elevation) || !isNumber(coins)) return null;
+  return {
+    id, x, y, elevation, coins, questionId, difficulty,
+    isUnlocked: isUnlocked === true,
+    isCompleted: isCompleted === true,
+    ...(isReview === true && { isReview: true }),
+    ...(isNumber(hintsRevealed) && hintsRevealed > 0 && { hintsRevealed: Math.floor(hintsRevealed) })
+  };
+};
+
+// Checks the shape of an up-to-date save, or null if anything is missing
+const readSaveFile = (data: SaveData): SaveFile | null => {
+  const player = readPlayer(data.player);
+  if (!player || !isNumber(data.seed) || !isEnvironment(data.environment) || !Array.isArray(data.boxes)) {
+    return null;
+  }
+  const boxes = data.boxes.map(readBox);
+  if (boxes.some(box => box === null)) return null;
+
+  return {
+    version: SAVE_VERSION,
+    savedAt: isNumber(data.savedAt) ? data.savedAt : Date.now(),
+    environment: data.environment,
+    seed: data.seed,
+    config: readHuntConfig(data.config),
+    hintsEnabled: data.hintsEnabled !== false,
+    player,
+    boxes: boxes as SavedBox[]
+  };
+};
+
+// A question removed from the bank is swapped for another of the same difficulty, from
+// the chosen chapters if they have one, so the chest and its pedestal stay exactly where they were
+const resolveQuestion = (box: SavedBox, save: SaveFile): Question =>
+  getQuestionById(box.questionId)
+  ?? getQuestionsByDifficulty(box.difficulty, 1, deriveRandom(save.seed, `replace:${box.id}`), huntFilter(save.config))[0]
+  ?? getQuestionsByDifficulty(box.difficulty, 1, deriveRandom(save.seed, `replace:${box.id}`))[0];
+
+export const createSaveFile = (state: GameState): SaveFile => ({
+  version: SAVE_VERSION,
+  savedAt: Date.now(),
+  environment: state.currentEnvironment,
+  seed: state.seed,
+  config: state.config,
+  hintsEnabled: state.hintsEnabled,
+  player: state.player,
+  boxes: state.treasureBoxes.map(toSavedBox)
+});
+
+// Turns save data of any known version back into the exact world it came from
+export const restoreSaveFile = (raw: unknown): GameState | null => {
+  if (!isRecord(raw)) return null;
+  const migrated = migrate(raw);
+  const save = migrated && readSaveFile(migrated);
+  if (!save) return null;
+
+  return {
+    player: save.player,
+    treasureBoxes: save.boxes.map(box => ({
+      id: box.id,
+      x: box.x,
+      y: box.y,
+      elevation: box.elevation,
+      coins: box.coins,
+      question: resolveQuestion(box, save),
+      isUnlocked: box.isUnlocked,
+      isCompleted: box.isCompleted,
+      ...(box.isReview && { isReview: true }),
+      ...(box.hintsRevealed && { hintsRevealed: box.hintsRevealed })
+    })),
+    currentEnvironment: save.environment,
+    seed: save.seed,
+    config: save.config,
+    isQuestionModalOpen: false,
+    currentQuestion: null,
+    attempts: 0,
+    bestScore: 0,
+    hintsEnabled: save.hintsEnabled
+  };
+};
+
+export const saveGame = (profileId: string, state: GameState) => {
+  localStorage.setItem(saveKey(profileId), JSON.stringify(createSaveFile(state)));
+};
+
+// Reads a profile's saved game, or null if there is none or it can't be understood
+export const loadGame = (profileId: string): GameState | null => {
+  const savedData = localStorage.getItem(saveKey(profileId));
+  if (!savedData) return null;
+
+  try {
+    return restoreSaveFile(JSON.parse(savedData));
+  } catch (error) {
+    console.error('Failed to load saved game:', error);
+    return null;
+  }
+};
+
+export const hasSavedGame = (profileId: string): boolean =>
+  localStorage.getItem(saveKey(profileId)) !== null;
+
+export const clearSavedGame = (profileId: string) => {
+  localStorage.removeItem(saveKey(profileId));
+};
+
+// Hands the save from before profiles existed to the first profile created
+export const adoptLegacySave = (profileId: string) => {
+  const legacyData = localStorage.getItem(LEGACY_SAVE_KEY);
+  if (legacyData === null) return;
+  if (localStorage.getItem(saveKey(profileId)) === null) {
+    localStorage.setItem(saveKey(profileId), legacyData);
+  }
+  localStorage.removeItem(LEGACY_SAVE_KEY);
+};
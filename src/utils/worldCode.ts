@@ -0,0 +1,18 @@
+import { Environment } from '../types/game';
+import { environmentOrder } from '../data/environments';
+import { codeToSeed, seedToCode } from './random';
+
+// A world is an environment plus a seed, shared as e.g. "J-1Z4K9QX"
+export const toWorldCode = (environment: Environment, seed: number): string =>
+  `${environment.charAt(0).toUpperCase()}-${seedToCode(seed)}`;
+
+export const parseWorldCode = (code: string): { environment: Environment; seed: number } | null => {
+  const match = code.trim().toUpperCase().match(/^([A-Z])-?([0-9A-Z]{1,7})$/);
+  if (!match) return null;
+
+  const environment = environmentOrder.find(env => env.charAt(0).toUpperCase() === match[1]);
+  const seed = codeToSeed(match[2]);
+  if (!environment || seed === null) return null;
+
+  return { environment, seed };
+};